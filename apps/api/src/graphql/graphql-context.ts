@@ -1,3 +1,4 @@
+import type { Loaders } from "$graphql/loaders";
 import type { database } from "@packages/db";
 import type { YogaInitialContext } from "graphql-yoga";
 import type { Context } from "hono";
@@ -5,4 +6,5 @@ import type { Context } from "hono";
 export interface GraphQLContext extends YogaInitialContext {
   db: ReturnType<typeof database>;
   honoContext: Context<{ Bindings: Env }>;
+  loaders: Loaders;
 }
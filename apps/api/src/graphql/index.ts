@@ -1,9 +1,11 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { YogaKVCache } from "$graphql/plugins";
+import { createLoaders } from "$graphql/loaders";
+import { YogaKVCache, useCostLimit, usePersistedQueries, useScopeControl } from "$graphql/plugins";
 import { resolvers } from "$graphql/resolvers";
 import { typeDefs } from "$graphql/schema";
+import { getDataVersions } from "$middleware";
 import { EnvelopArmorPlugin } from "@escape.tech/graphql-armor";
-import { useResponseCache } from "@graphql-yoga/plugin-response-cache";
+import { hashSHA256, useResponseCache } from "@graphql-yoga/plugin-response-cache";
 import { database } from "@packages/db";
 import { createSchema, createYoga } from "graphql-yoga";
 import { Hono } from "hono";
@@ -11,20 +13,40 @@ import { Hono } from "hono";
 const graphqlRouter = new Hono<{ Bindings: Env }>();
 
 graphqlRouter.use("*", async (c) => {
-  const context = { db: database(c.env.DB.connectionString), honoContext: c };
+  const db = database(c.env.DB.connectionString);
+  const context = { db, honoContext: c, loaders: createLoaders(db) };
+  const schema = createSchema<GraphQLContext>({ typeDefs, resolvers });
   const yoga = createYoga<GraphQLContext>({
     context,
     maskedErrors: false,
     plugins: [
+      usePersistedQueries(c.env.GQL_CACHE),
       EnvelopArmorPlugin({ blockFieldSuggestion: { enabled: false }, maxDepth: { n: 8 } }),
       c.env.CF_ENV === "prod"
         ? useResponseCache({
             cache: new YogaKVCache(c.env.GQL_CACHE),
             session: () => null,
+            // responses may be derived from data in any domain, so they are cached until any of it is updated
+            buildResponseCacheKey: async ({ documentString, operationName, variableValues }) =>
+              hashSHA256(
+                [
+                  documentString,
+                  operationName ?? "",
+                  JSON.stringify(variableValues ?? {}),
+                  Array.from(
+                    await getDataVersions(c.env),
+                    ([domain, { version }]) => `${domain}-${version}`,
+                  )
+                    .sort()
+                    .join(","),
+                ].join("|"),
+              ),
           })
         : {},
+      useScopeControl(schema, c.env.API_KEYS),
+      useCostLimit(),
     ],
-    schema: createSchema({ typeDefs, resolvers }),
+    schema,
   });
   return yoga.fetch(c.req.raw, context);
 });
@@ -0,0 +1,244 @@
+import type {
+  calendarTermSchema,
+  courseSchema,
+  enrollmentAnalyticsSchema,
+  enrollmentHistorySchema,
+  instructorSchema,
+  programsByCourseResponseSchema,
+  rawGradeSchema,
+  websocSectionSchema,
+} from "$schema";
+import {
+  CalendarService,
+  CoursesService,
+  EnrollmentHistoryService,
+  GradesService,
+  InstructorsService,
+  ProgramsService,
+  WebsocService,
+} from "$services";
+import type { database } from "@packages/db";
+import type { Term } from "@packages/db/schema";
+import type { z } from "zod";
+
+/**
+ * Collects the keys requested during a single turn of the event loop, so that they can be retrieved
+ * using one call to the batch function instead of one call per key.
+ *
+ * The batch function must return the value for each key in the same order as the keys it was given.
+ * Values are cached for the lifetime of the loader, so a loader should only be used for one request.
+ */
+export class BatchLoader<K, V> {
+  private readonly cache = new Map<string, Promise<V>>();
+  private queue: { key: K; resolve: (value: V) => void; reject: (reason: unknown) => void }[] = [];
+
+  constructor(
+    private readonly batch: (keys: K[]) => Promise<V[]>,
+    private readonly cacheKeyOf: (key: K) => string = String,
+  ) {}
+
+  load(key: K): Promise<V> {
+    const cacheKey = this.cacheKeyOf(key);
+    const cached = this.cache.get(cacheKey);
+    if (cached) return cached;
+    const promise = new Promise<V>((resolve, reject) => {
+      if (!this.queue.length) setTimeout(() => this.dispatch());
+      this.queue.push({ key, resolve, reject });
+    });
+    this.cache.set(cacheKey, promise);
+    return promise;
+  }
+
+  private async dispatch() {
+    const queue = this.queue;
+    this.queue = [];
+    try {
+      const values = await this.batch(queue.map(({ key }) => key));
+      queue.forEach(({ resolve }, i) => resolve(values[i]));
+    } catch (e) {
+      for (const { key, reject } of queue) {
+        // failures should not be cached, so that they can be retried
+        this.cache.delete(this.cacheKeyOf(key));
+        reject(e);
+      }
+    }
+  }
+}
+
+/**
+ * Groups the given values by the given key function, returning the group for each of the given keys.
+ */
+const groupBy = <V>(keys: string[], values: V[], keyOf: (value: V) => string) => {
+  const groups = Map.groupBy(values, keyOf);
+  return keys.map((key) => groups.get(key) ?? []);
+};
+
+/**
+ * Returns the value with each of the given keys, or `null` if there is no such value.
+ */
+const findBy = <V>(keys: string[], values: V[], keyOf: (value: V) => string) => {
+  const valuesByKey = new Map(values.map((value) => [keyOf(value), value]));
+  return keys.map((key) => valuesByKey.get(key) ?? null);
+};
+
+/**
+ * The ID of a course in the catalogue is its department code without spaces followed by its course number.
+ */
+const toCourseId = ({ department, courseNumber }: { department: string; courseNumber: string }) =>
+  `${department.replaceAll(" ", "")}${courseNumber}`;
+
+export type TermKey = { year: string; quarter: Term };
+
+const termKeyOf = ({ year, quarter }: TermKey) => `${year} ${quarter}`;
+
+export type CourseSectionsKey = TermKey & { courseId: string };
+
+const courseSectionsKeyOf = ({ courseId, year, quarter }: CourseSectionsKey) =>
+  `${courseId} ${year} ${quarter}`;
+
+export type InstructorGradesKey = { ucinetid: string; shortenedNames: string[] };
+
+export type SectionKey = TermKey & { sectionCode: string };
+
+const sectionKeyOf = ({ year, quarter, sectionCode }: SectionKey) =>
+  `${year} ${quarter} ${sectionCode}`;
+
+/**
+ * Creates the loaders used by resolvers to retrieve data, so that the data requested by resolvers of the
+ * same field for different parents is retrieved together. This should be called once per request.
+ */
+export function createLoaders(db: ReturnType<typeof database>) {
+  const courses = new BatchLoader<string, z.infer<typeof courseSchema> | null>(async (ids) => {
+    const service = new CoursesService(db);
+    return findBy(ids, await service.batchGetCourses(ids), ({ id }) => id);
+  });
+  const instructors = new BatchLoader<string, z.infer<typeof instructorSchema> | null>(
+    async (ucinetids) => {
+      const service = new InstructorsService(db);
+      return findBy(
+        ucinetids,
+        await service.batchGetInstructors(ucinetids),
+        ({ ucinetid }) => ucinetid,
+      );
+    },
+  );
+  const sections = new BatchLoader<SectionKey, z.infer<typeof websocSectionSchema> | null>(
+    async (keys) => {
+      const service = new WebsocService(db);
+      return findBy(
+        keys.map(sectionKeyOf),
+        await service.batchGetSections(
+          keys.map(({ sectionCode, ...key }) => ({
+            ...key,
+            sectionCode: Number.parseInt(sectionCode, 10),
+          })),
+        ),
+        ({ year, quarter, section: { sectionCode } }) =>
+          sectionKeyOf({ year, quarter, sectionCode }),
+      ).map((row) => row?.section ?? null);
+    },
+    sectionKeyOf,
+  );
+  const calendarTerms = new BatchLoader<TermKey, z.infer<typeof calendarTermSchema> | null>(
+    async (keys) => {
+      const service = new CalendarService(db);
+      return findBy(keys.map(termKeyOf), await service.batchGetCalendarTerms(keys), termKeyOf);
+    },
+    termKeyOf,
+  );
+  return {
+    courses,
+    instructors,
+    sections,
+    calendarTerms,
+    courseSections: new BatchLoader<CourseSectionsKey, z.infer<typeof websocSectionSchema>[]>(
+      async (keys) => {
+        const service = new WebsocService(db);
+        return groupBy(
+          keys.map(courseSectionsKeyOf),
+          await service.getSectionsByCourses(keys),
+          courseSectionsKeyOf,
+        ).map((rows) => rows.map(({ section }) => section));
+      },
+      courseSectionsKeyOf,
+    ),
+    courseGrades: new BatchLoader<string, z.infer<typeof rawGradeSchema>[]>(async (courseIds) => {
+      const service = new GradesService(db);
+      return groupBy(courseIds, await service.getRawGradesByCourses(courseIds), toCourseId);
+    }),
+    courseEnrollmentHistory: new BatchLoader<string, z.infer<typeof enrollmentHistorySchema>[]>(
+      async (courseIds) => {
+        const service = new EnrollmentHistoryService(db);
+        return groupBy(
+          courseIds,
+          await service.getEnrollmentHistoryByCourses(courseIds),
+          toCourseId,
+        );
+      },
+    ),
+    coursePrograms: new BatchLoader<string, z.infer<typeof programsByCourseResponseSchema>>(
+      async (courseIds) => {
+        const service = new ProgramsService(db);
+        return groupBy(
+          courseIds,
+          await service.getProgramsByCourses(courseIds),
+          ({ courseId }) => courseId,
+        ).map((programs) => programs.map(({ courseId: _, ...program }) => program));
+      },
+    ),
+    instructorGrades: new BatchLoader<InstructorGradesKey, z.infer<typeof rawGradeSchema>[]>(
+      async (keys) => {
+        const service = new GradesService(db);
+        const grades = await service.getRawGradesByInstructors(
+          keys.flatMap(({ shortenedNames }) => shortenedNames),
+        );
+        return keys.map(({ shortenedNames }) =>
+          grades.filter(({ instructors }) =>
+            instructors.some((name) => shortenedNames.includes(name)),
+          ),
+        );
+      },
+      ({ ucinetid }) => ucinetid,
+    ),
+    sectionCourse: new BatchLoader<string, z.infer<typeof courseSchema> | null>(
+      async (websocCourseIds) => {
+        const service = new WebsocService(db);
+        const courseIds = new Map(
+          (await service.getCatalogueCourseIds(websocCourseIds)).map(({ id, courseId }) => [
+            id,
+            courseId,
+          ]),
+        );
+        return Promise.all(
+          websocCourseIds.map((id) => {
+            const courseId = courseIds.get(id);
+            return courseId ? courses.load(courseId) : null;
+          }),
+        );
+      },
+    ),
+    sectionEnrollmentHistory: new BatchLoader<
+      SectionKey & { id: string },
+      z.infer<typeof enrollmentHistorySchema> | null
+    >(
+      async (keys) => {
+        const service = new EnrollmentHistoryService(db);
+        return findBy(
+          keys.map(sectionKeyOf),
+          await service.getEnrollmentHistoryBySections(keys.map(({ id }) => id)),
+          sectionKeyOf,
+        );
+      },
+      ({ id }) => id,
+    ),
+    enrollmentAnalytics: new BatchLoader<
+      z.infer<typeof enrollmentHistorySchema>,
+      z.infer<typeof enrollmentAnalyticsSchema>
+    >(async (histories) => {
+      const service = new EnrollmentHistoryService(db);
+      return service.getEnrollmentAnalytics(histories);
+    }, sectionKeyOf),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
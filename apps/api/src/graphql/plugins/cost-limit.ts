@@ -0,0 +1,195 @@
+import type { GraphQLContext } from "$graphql/graphql-context";
+import { chargeRateLimit } from "$middleware";
+import {
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLField,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  Kind,
+  type SelectionSetNode,
+  getArgumentValues,
+  getDirectiveValues,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+} from "graphql";
+import type { Plugin } from "graphql-yoga";
+import { GraphQLError } from "graphql/error";
+
+/**
+ * The number of items assumed to be in a list which has neither a page size nor a `@listSize` directive.
+ */
+const DEFAULT_LIST_SIZE = 10;
+
+/**
+ * The maximum cost of a single operation.
+ */
+const MAX_OPERATION_COST = 50_000;
+
+/**
+ * The cost which is covered by a single request towards the rate limit.
+ * Operations which cost more than this count as multiple requests.
+ */
+const COST_PER_REQUEST = 1_000;
+
+/**
+ * Returns the page size requested for the given field, if any.
+ * Page sizes are given either directly or as part of the `query` input.
+ */
+function getPageSize(args: Record<string, unknown>): number | undefined {
+  const take = args.take ?? (args.query as Record<string, unknown> | null | undefined)?.take;
+  return typeof take === "number" ? take : undefined;
+}
+
+/**
+ * Returns the estimated cost of the operation to be executed.
+ *
+ * Each field which returns an object costs 1 unless it has a `@cost` directive, and fields which return scalars
+ * are free. The cost of the fields selected on a list is multiplied by the number of items in the list, which
+ * is the page size requested, or else the size given by its `@listSize` directive. Lists in paginated responses
+ * (e.g. `items`) otherwise take the page size requested of the field which returned the response.
+ */
+export function getOperationCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Record<string, unknown> = {},
+  operationName?: string | null,
+) {
+  const costDirective = schema.getDirective("cost");
+  const listSizeDirective = schema.getDirective("listSize");
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+  const fieldCost = (
+    field: GraphQLField<unknown, unknown>,
+    node: FieldNode,
+    inheritedPageSize?: number,
+  ): number => {
+    const type = getNullableType(field.type);
+    const namedType = getNamedType(type);
+    const cost = field.astNode && costDirective && getDirectiveValues(costDirective, field.astNode);
+    const weight = (cost?.weight as number | undefined) ?? (isCompositeType(namedType) ? 1 : 0);
+    if (!node.selectionSet) return weight;
+    const pageSize = getPageSize(getArgumentValues(field, node, variables));
+    if (!isListType(type)) {
+      return weight + selectionSetCost(namedType, node.selectionSet, pageSize);
+    }
+    const listSize =
+      field.astNode && listSizeDirective && getDirectiveValues(listSizeDirective, field.astNode);
+    const size =
+      pageSize ??
+      (listSize?.assumedSize as number | undefined) ??
+      inheritedPageSize ??
+      DEFAULT_LIST_SIZE;
+    return weight + size * selectionSetCost(namedType, node.selectionSet);
+  };
+  const selectionSetCost = (
+    type: GraphQLNamedType | null | undefined,
+    selectionSet: SelectionSetNode,
+    inheritedPageSize?: number,
+    visited = new Set<string>(),
+  ): number => {
+    let cost = 0;
+    for (const selection of selectionSet.selections) {
+      switch (selection.kind) {
+        case Kind.FIELD: {
+          const field =
+            isObjectType(type) || isInterfaceType(type)
+              ? type.getFields()[selection.name.value]
+              : undefined;
+          if (field) cost += fieldCost(field, selection, inheritedPageSize);
+          break;
+        }
+        case Kind.INLINE_FRAGMENT:
+          cost += selectionSetCost(
+            selection.typeCondition ? schema.getType(selection.typeCondition.name.value) : type,
+            selection.selectionSet,
+            inheritedPageSize,
+            visited,
+          );
+          break;
+        case Kind.FRAGMENT_SPREAD: {
+          // fragments are only counted once per selection set, in case they are spread more than once
+          const fragment = fragments.get(selection.name.value);
+          if (fragment && !visited.has(fragment.name.value)) {
+            visited.add(fragment.name.value);
+            cost += selectionSetCost(
+              schema.getType(fragment.typeCondition.name.value),
+              fragment.selectionSet,
+              inheritedPageSize,
+              visited,
+            );
+          }
+          break;
+        }
+      }
+    }
+    return cost;
+  };
+  const operation = document.definitions.find(
+    (definition) =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!operationName || definition.name?.value === operationName),
+  );
+  return operation?.kind === Kind.OPERATION_DEFINITION
+    ? selectionSetCost(schema.getRootType(operation.operation), operation.selectionSet)
+    : 0;
+}
+
+/**
+ * Plugin for limiting the cost of operations.
+ *
+ * Operations which are estimated to cost more than the maximum are rejected outright. Otherwise, operations which
+ * cost more than what is covered by a single request count as multiple requests towards the rate limit of the
+ * API key (or IP address) which made them, and are rejected if that would exceed the rate limit.
+ *
+ * Cached responses are served before the operation is executed, so they are not counted again.
+ */
+export const useCostLimit = (): Plugin<GraphQLContext> => {
+  const costsByRequest = new WeakMap<Request, number>();
+  return {
+    async onExecute({ args, setResultAndStopExecution }) {
+      const cost = getOperationCost(
+        args.schema,
+        args.document,
+        args.variableValues ?? undefined,
+        args.operationName,
+      );
+      if (cost > MAX_OPERATION_COST) {
+        setResultAndStopExecution({
+          errors: [
+            new GraphQLError(
+              `The estimated cost of this operation (${cost}) exceeds the maximum of ${MAX_OPERATION_COST}`,
+              { extensions: { code: "QUERY_TOO_COMPLEX", http: { status: 400 } } },
+            ),
+          ],
+        });
+        return;
+      }
+      costsByRequest.set(args.contextValue.request, cost);
+      const hits = Math.ceil(cost / COST_PER_REQUEST) - 1;
+      if (!(await chargeRateLimit(args.contextValue.honoContext, hits))) {
+        setResultAndStopExecution({
+          errors: [
+            new GraphQLError(
+              `The estimated cost of this operation (${cost}) exceeds the remaining rate limit`,
+              { extensions: { code: "RATE_LIMITED", http: { status: 429 } } },
+            ),
+          ],
+        });
+      }
+    },
+    onResponse({ request, response }) {
+      const cost = costsByRequest.get(request);
+      if (cost !== undefined) response.headers.set("X-GraphQL-Cost", cost.toString(10));
+    },
+  };
+};
@@ -1 +1,4 @@
+export * from "./cost-limit";
+export * from "./persisted-queries";
+export * from "./scope-control";
 export * from "./yoga-kv-cache";
@@ -0,0 +1,58 @@
+import type { Plugin } from "graphql-yoga";
+import { GraphQLError } from "graphql/error";
+
+/**
+ * Persisted queries expire this long after they were registered, after which clients must register them again.
+ */
+const PERSISTED_QUERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const persistedQueryKey = (hash: string) => `apq:${hash}`;
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Plugin implementing Automatic Persisted Queries (APQ), as described at
+ * https://www.apollographql.com/docs/apollo-server/performance/apq.
+ *
+ * Clients may send the SHA-256 hash of a document instead of the document itself. If the document is not yet
+ * known, the client is asked to send it along with its hash, after which the hash alone suffices. Since requests
+ * consisting of only a hash are short, they can be made using GET, so that their responses can be cached.
+ *
+ * This must be placed before any other plugin which uses the document, such as the response cache plugin.
+ */
+export const usePersistedQueries = (kv: KVNamespace): Plugin => ({
+  async onParams({ params, setParams }) {
+    const persistedQuery = params.extensions?.persistedQuery as
+      | { version?: number; sha256Hash?: string }
+      | undefined;
+    if (!persistedQuery) return;
+    if (persistedQuery.version !== 1 || typeof persistedQuery.sha256Hash !== "string") {
+      throw new GraphQLError("Unsupported persisted query version", {
+        extensions: { code: "PERSISTED_QUERY_NOT_SUPPORTED" },
+      });
+    }
+    const hash = persistedQuery.sha256Hash.toLowerCase();
+    if (params.query) {
+      if ((await sha256(params.query)) !== hash) {
+        throw new GraphQLError("Provided sha does not match query", {
+          extensions: { code: "BAD_USER_INPUT" },
+        });
+      }
+      await kv.put(persistedQueryKey(hash), params.query, {
+        expirationTtl: PERSISTED_QUERY_TTL_SECONDS,
+      });
+      return;
+    }
+    const query = await kv.get(persistedQueryKey(hash));
+    if (!query) {
+      // this exact message is expected by clients implementing APQ
+      throw new GraphQLError("PersistedQueryNotFound", {
+        extensions: { code: "PERSISTED_QUERY_NOT_FOUND" },
+      });
+    }
+    setParams({ ...params, query });
+  },
+});
@@ -0,0 +1,141 @@
+import { type KeyData, type Scope, isScopeGranted } from "@packages/key-types";
+import {
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  Kind,
+  type SelectionSetNode,
+  getNamedType,
+  isInterfaceType,
+  isObjectType,
+  parse,
+} from "graphql";
+import type { Plugin } from "graphql-yoga";
+import { GraphQLError } from "graphql/error";
+
+/**
+ * Returns the scope of each field of the given schema annotated with the `@scope` directive,
+ * keyed by its schema coordinate (e.g. `Query.courses`).
+ */
+function getScopesByField(schema: GraphQLSchema) {
+  const scopesByField = new Map<string, Scope>();
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!isObjectType(type)) continue;
+    for (const field of Object.values(type.getFields())) {
+      const argument = field.astNode?.directives
+        ?.find((directive) => directive.name.value === "scope")
+        ?.arguments?.find((argument) => argument.name.value === "name");
+      if (argument?.value.kind === Kind.ENUM) {
+        scopesByField.set(`${type.name}.${field.name}`, argument.value.value as Scope);
+      }
+    }
+  }
+  return scopesByField;
+}
+
+/**
+ * Returns the schema coordinates of the fields selected by the operation to be executed, at any depth.
+ */
+function getSelectedFields(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string,
+): string[] {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+  const operations = document.definitions.filter(
+    (definition) =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!operationName || definition.name?.value === operationName),
+  );
+  const coordinates = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (type: GraphQLNamedType | null | undefined, selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      switch (selection.kind) {
+        case Kind.FIELD: {
+          const field =
+            isObjectType(type) || isInterfaceType(type)
+              ? type.getFields()[selection.name.value]
+              : undefined;
+          if (!type || !field) break;
+          coordinates.add(`${type.name}.${field.name}`);
+          if (selection.selectionSet) visit(getNamedType(field.type), selection.selectionSet);
+          break;
+        }
+        case Kind.INLINE_FRAGMENT:
+          visit(
+            selection.typeCondition ? schema.getType(selection.typeCondition.name.value) : type,
+            selection.selectionSet,
+          );
+          break;
+        case Kind.FRAGMENT_SPREAD: {
+          const fragment = fragments.get(selection.name.value);
+          if (fragment && !visited.has(fragment.name.value)) {
+            visited.add(fragment.name.value);
+            visit(schema.getType(fragment.typeCondition.name.value), fragment.selectionSet);
+          }
+          break;
+        }
+      }
+    }
+  };
+  for (const operation of operations) {
+    if (operation.kind === Kind.OPERATION_DEFINITION) {
+      visit(schema.getRootType(operation.operation), operation.selectionSet);
+    }
+  }
+  return Array.from(coordinates);
+}
+
+/**
+ * Plugin for restricting requests made using scoped API keys to the fields in the scopes they were granted.
+ * Fields which relate one type to another (e.g. `Course.grades`) are checked in the same way as root fields.
+ *
+ * Cached responses are served before the operation is executed, so this plugin checks the operation as soon as its
+ * parameters are known. It must be placed after the response cache plugin, so that the error it reports takes
+ * precedence over any cached response.
+ */
+export const useScopeControl = (schema: GraphQLSchema, kv: KVNamespace): Plugin => {
+  const scopesByField = getScopesByField(schema);
+  return {
+    async onParams({ params, request, setResult }) {
+      const header = request.headers.get("authorization");
+      if (!header || !params.query) return;
+      let document: DocumentNode;
+      try {
+        document = parse(params.query);
+      } catch {
+        // syntax errors are reported when the operation is actually parsed
+        return;
+      }
+      const requiredScopes = new Set(
+        getSelectedFields(schema, document, params.operationName)
+          .map((coordinate) => scopesByField.get(coordinate))
+          .filter((scope) => scope !== undefined),
+      );
+      if (!requiredScopes.size) return;
+      const [_, key] = header.split(" ", 2);
+      const keyData = await kv.get<KeyData>(key, { type: "json" });
+      if (!keyData) return;
+      const deniedScopes = Array.from(requiredScopes).filter(
+        (scope) => !isScopeGranted(keyData, scope),
+      );
+      if (deniedScopes.length) {
+        setResult({
+          errors: [
+            new GraphQLError(
+              `The specified API key is not permitted to access data in scope(s) ${deniedScopes.map((scope) => `'${scope}'`).join(", ")}`,
+              { extensions: { code: "FORBIDDEN" } },
+            ),
+          ],
+        });
+      }
+    },
+  };
+};
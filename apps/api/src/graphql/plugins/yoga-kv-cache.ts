@@ -15,5 +15,6 @@ export class YogaKVCache implements Cache {
   }
 
   // This is a no-op because our API doesn't have mutations.
+  // Responses derived from outdated data are not served either, since cache keys include the data versions.
   invalidate(_: unknown) {}
 }
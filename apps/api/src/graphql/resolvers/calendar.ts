@@ -5,10 +5,9 @@ import { GraphQLError } from "graphql/error";
 
 export const calendarResolvers = {
   Query: {
-    calendarTerm: async (_: unknown, args: unknown, { db }: GraphQLContext) => {
+    calendarTerm: async (_: unknown, args: unknown, { loaders }: GraphQLContext) => {
       const parsedArgs = calendarQuerySchema.parse(args);
-      const service = new CalendarService(db);
-      const res = await service.getCalendarTerm(parsedArgs);
+      const res = await loaders.calendarTerms.load(parsedArgs);
       if (!res)
         throw new GraphQLError(`Term ${parsedArgs.year} ${parsedArgs.quarter} not found`, {
           extensions: { code: "NOT_FOUND" },
@@ -19,5 +18,10 @@ export const calendarResolvers = {
       const service = new CalendarService(db);
       return await service.getAllCalendarTerms();
     },
+    calendarEvents: async (_: unknown, args: unknown, { db }: GraphQLContext) => {
+      const parsedArgs = calendarQuerySchema.parse(args);
+      const service = new CalendarService(db);
+      return await service.getCalendarEvents(parsedArgs);
+    },
   },
 };
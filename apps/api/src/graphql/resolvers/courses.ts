@@ -1,17 +1,22 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { coursesByCursorQuerySchema, coursesQuerySchema } from "$schema";
+import {
+  coursesByCursorQuerySchema,
+  coursesQuerySchema,
+  prerequisiteGraphQuerySchema,
+} from "$schema";
 import { CoursesService } from "$services";
+import type { Term } from "@packages/db/schema";
+import { notNull } from "@packages/stdlib";
 import { GraphQLError } from "graphql/error";
 
 export const coursesResolvers = {
   Query: {
-    batchCourses: async (_: unknown, { ids }: { ids: string[] }, { db }: GraphQLContext) => {
-      const service = new CoursesService(db);
-      return await service.batchGetCourses(ids);
+    batchCourses: async (_: unknown, { ids }: { ids: string[] }, { loaders }: GraphQLContext) => {
+      const res = await Promise.all(Array.from(new Set(ids), (id) => loaders.courses.load(id)));
+      return res.filter(notNull);
     },
-    course: async (_: unknown, { id }: { id: string }, { db }: GraphQLContext) => {
-      const service = new CoursesService(db);
-      const res = await service.getCourseById(id);
+    course: async (_: unknown, { id }: { id: string }, { loaders }: GraphQLContext) => {
+      const res = await loaders.courses.load(id);
       if (!res)
         throw new GraphQLError(`Course '${id}' not found`, { extensions: { code: "NOT_FOUND" } });
       return res;
@@ -31,4 +36,32 @@ export const coursesResolvers = {
       };
     },
   },
+  Course: {
+    prerequisiteGraph: async (
+      { id }: { id: string },
+      args: { depth?: number; completedCourses?: string[] },
+      { db }: GraphQLContext,
+    ) => {
+      const service = new CoursesService(db);
+      const res = await service.getPrerequisiteGraph(
+        id,
+        prerequisiteGraphQuerySchema.parse({
+          depth: args.depth ?? undefined,
+          completedCourses: args.completedCourses?.join(","),
+        }),
+      );
+      if (!res)
+        throw new GraphQLError(`Course '${id}' not found`, { extensions: { code: "NOT_FOUND" } });
+      return res;
+    },
+    sections: async (
+      { id }: { id: string },
+      { year, quarter }: { year: string; quarter: Term },
+      { loaders }: GraphQLContext,
+    ) => loaders.courseSections.load({ courseId: id, year, quarter }),
+    grades: async ({ id }: { id: string }, _: unknown, { loaders }: GraphQLContext) =>
+      loaders.courseGrades.load(id),
+    enrollmentHistory: async ({ id }: { id: string }, _: unknown, { loaders }: GraphQLContext) =>
+      loaders.courseEnrollmentHistory.load(id),
+  },
 };
@@ -1,6 +1,11 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { enrollmentHistoryQuerySchema } from "$schema";
+import {
+  enrollmentHistoryByCursorQuerySchema,
+  enrollmentHistoryQuerySchema,
+  type enrollmentHistorySchema,
+} from "$schema";
 import { EnrollmentHistoryService } from "$services";
+import type { z } from "zod";
 
 export const enrollmentHistoryResolvers = {
   Query: {
@@ -8,5 +13,50 @@ export const enrollmentHistoryResolvers = {
       const service = new EnrollmentHistoryService(db);
       return await service.getEnrollmentHistory(enrollmentHistoryQuerySchema.parse(args.query));
     },
+    enrollmentHistoryTimeseries: async (
+      _: unknown,
+      args: { query: unknown },
+      { db }: GraphQLContext,
+    ) => {
+      const service = new EnrollmentHistoryService(db);
+      return await service.getEnrollmentHistoryTimeseries(
+        enrollmentHistoryQuerySchema.parse(args.query),
+      );
+    },
+    enrollmentHistoryByCursor: async (
+      _: unknown,
+      args: { query: unknown },
+      { db }: GraphQLContext,
+    ) => {
+      const service = new EnrollmentHistoryService(db);
+      const { items, nextCursor } = await service.getEnrollmentHistoryByCursor(
+        enrollmentHistoryByCursorQuerySchema.parse(args.query),
+      );
+      return {
+        items,
+        nextCursor,
+      };
+    },
+    enrollmentHistoryTimeseriesByCursor: async (
+      _: unknown,
+      args: { query: unknown },
+      { db }: GraphQLContext,
+    ) => {
+      const service = new EnrollmentHistoryService(db);
+      const { items, nextCursor } = await service.getEnrollmentHistoryTimeseriesByCursor(
+        enrollmentHistoryByCursorQuerySchema.parse(args.query),
+      );
+      return {
+        items,
+        nextCursor,
+      };
+    },
+  },
+  EnrollmentHistory: {
+    analytics: async (
+      parent: z.infer<typeof enrollmentHistorySchema>,
+      _: unknown,
+      { loaders }: GraphQLContext,
+    ) => loaders.enrollmentAnalytics.load(parent),
   },
 };
@@ -1,6 +1,11 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { gradesQuerySchema } from "$schema";
+import {
+  gradesForecastQuerySchema,
+  gradesQuerySchema,
+  rawGradesByCursorQuerySchema,
+} from "$schema";
 import { GradesService } from "$services";
+import { GraphQLError } from "graphql/error";
 
 export const gradesResolvers = {
   Query: {
@@ -8,6 +13,16 @@ export const gradesResolvers = {
       const service = new GradesService(db);
       return await service.getRawGrades(gradesQuerySchema.parse(args.query));
     },
+    rawGradesByCursor: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const service = new GradesService(db);
+      const { items, nextCursor } = await service.getRawGradesByCursor(
+        rawGradesByCursorQuerySchema.parse(args.query),
+      );
+      return {
+        items,
+        nextCursor,
+      };
+    },
     gradesOptions: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
       const service = new GradesService(db);
       return await service.getGradesOptions(gradesQuerySchema.parse(args.query));
@@ -32,5 +47,16 @@ export const gradesResolvers = {
       const service = new GradesService(db);
       return await service.getAggregateGradesByOffering(gradesQuerySchema.parse(args.query));
     },
+    gradesForecast: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const parsedArgs = gradesForecastQuerySchema.parse(args.query);
+      const service = new GradesService(db);
+      const res = await service.getGradesForecast(parsedArgs);
+      if (!res)
+        throw new GraphQLError(
+          `Section ${parsedArgs.sectionCode} not found in ${parsedArgs.year} ${parsedArgs.quarter}`,
+          { extensions: { code: "NOT_FOUND" } },
+        );
+      return res;
+    },
   },
 };
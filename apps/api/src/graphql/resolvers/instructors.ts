@@ -1,6 +1,8 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
+import type { InstructorGradesKey } from "$graphql/loaders";
 import { instructorsByCursorQuerySchema, instructorsQuerySchema } from "$schema";
 import { InstructorsService } from "$services";
+import { notNull } from "@packages/stdlib";
 import { GraphQLError } from "graphql/error";
 
 export const instructorsResolvers = {
@@ -8,14 +10,19 @@ export const instructorsResolvers = {
     batchInstructors: async (
       _: unknown,
       { ucinetids }: { ucinetids: string[] },
-      { db }: GraphQLContext,
+      { loaders }: GraphQLContext,
     ) => {
-      const service = new InstructorsService(db);
-      return await service.batchGetInstructors(ucinetids);
+      const res = await Promise.all(
+        Array.from(new Set(ucinetids), (ucinetid) => loaders.instructors.load(ucinetid)),
+      );
+      return res.filter(notNull);
     },
-    instructor: async (_: unknown, { ucinetid }: { ucinetid: string }, { db }: GraphQLContext) => {
-      const service = new InstructorsService(db);
-      const res = await service.getInstructorByUCInetID(ucinetid);
+    instructor: async (
+      _: unknown,
+      { ucinetid }: { ucinetid: string },
+      { loaders }: GraphQLContext,
+    ) => {
+      const res = await loaders.instructors.load(ucinetid);
       if (!res)
         throw new GraphQLError(`Instructor '${ucinetid}' not found`, {
           extensions: { code: "NOT_FOUND" },
@@ -37,4 +44,8 @@ export const instructorsResolvers = {
       };
     },
   },
+  Instructor: {
+    grades: async (parent: InstructorGradesKey, _: unknown, { loaders }: GraphQLContext) =>
+      loaders.instructorGrades.load(parent),
+  },
 };
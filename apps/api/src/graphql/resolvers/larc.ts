@@ -1,5 +1,5 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { larcQuerySchema } from "$schema";
+import { larcByCursorQuerySchema, larcQuerySchema } from "$schema";
 import { LarcService } from "../../services/larc.ts";
 
 export const larcResolvers = {
@@ -8,5 +8,15 @@ export const larcResolvers = {
       const service = new LarcService(db);
       return await service.getLarcSections(larcQuerySchema.parse(args.query));
     },
+    larcByCursor: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const service = new LarcService(db);
+      const { items, nextCursor } = await service.getLarcSectionsByCursor(
+        larcByCursorQuerySchema.parse(args.query),
+      );
+      return {
+        items,
+        nextCursor,
+      };
+    },
   },
 };
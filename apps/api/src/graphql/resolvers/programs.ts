@@ -86,6 +86,10 @@ export const programResolvers = {
       return res;
     },
   },
+  Course: {
+    programs: async ({ id }: { id: string }, _: unknown, { loaders }: GraphQLContext) =>
+      loaders.coursePrograms.load(id),
+  },
   ProgramRequirement: {
     // x outside this typehint is malformed data; meh
     __resolveType: (x: {
@@ -1,6 +1,14 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { websocQuerySchema } from "$schema";
+import type { SectionKey } from "$graphql/loaders";
+import {
+  websocByCursorQuerySchema,
+  websocConflictsQuerySchema,
+  websocQuerySchema,
+  websocSchedulesQuerySchema,
+  websocSectionQuerySchema,
+} from "$schema";
 import { WebsocService } from "$services";
+import { GraphQLError } from "graphql/error";
 
 export const websocResolvers = {
   Query: {
@@ -8,9 +16,46 @@ export const websocResolvers = {
       const service = new WebsocService(db);
       return await service.getWebsocResponse(websocQuerySchema.parse(args.query));
     },
+    websocByCursor: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const service = new WebsocService(db);
+      const { items, nextCursor } = await service.getWebsocResponseByCursor(
+        websocByCursorQuerySchema.parse(args.query),
+      );
+      return {
+        items,
+        nextCursor,
+      };
+    },
     terms: async (_: unknown, __: unknown, { db }: GraphQLContext) => {
       const service = new WebsocService(db);
       return await service.getAllTerms();
     },
+    websocConflicts: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const service = new WebsocService(db);
+      return await service.getSectionConflicts(websocConflictsQuerySchema.parse(args.query));
+    },
+    websocSchedules: async (_: unknown, args: { query: unknown }, { db }: GraphQLContext) => {
+      const service = new WebsocService(db);
+      return await service.getSchedules(websocSchedulesQuerySchema.parse(args.query));
+    },
+    websocSection: async (_: unknown, args: unknown, { loaders }: GraphQLContext) => {
+      const parsedArgs = websocSectionQuerySchema.parse(args);
+      const res = await loaders.sections.load(parsedArgs);
+      if (!res)
+        throw new GraphQLError(
+          `Section ${parsedArgs.sectionCode} in ${parsedArgs.year} ${parsedArgs.quarter} not found`,
+          { extensions: { code: "NOT_FOUND" } },
+        );
+      return res;
+    },
+  },
+  WebsocSection: {
+    course: async ({ courseId }: { courseId: string }, _: unknown, { loaders }: GraphQLContext) =>
+      loaders.sectionCourse.load(courseId),
+    enrollmentHistory: async (
+      parent: SectionKey & { id: string },
+      _: unknown,
+      { loaders }: GraphQLContext,
+    ) => loaders.sectionEnrollmentHistory.load(parent),
   },
 };
@@ -1,5 +1,5 @@
 import type { GraphQLContext } from "$graphql/graphql-context";
-import { weekQuerySchema } from "$schema";
+import { calendarQuerySchema, weekBatchQuerySchema, weekQuerySchema } from "$schema";
 import { WeekService } from "$services";
 import { GraphQLError } from "graphql/error";
 
@@ -14,5 +14,24 @@ export const weekResolvers = {
         });
       return res;
     },
+    weekBatch: async (_: unknown, args: unknown, { db }: GraphQLContext) => {
+      const service = new WeekService(db);
+      const res = await service.getWeekDataBatch(weekBatchQuerySchema.parse(args));
+      if (!res)
+        throw new GraphQLError("Something unexpected happened. Please try again later.", {
+          extensions: { code: "INTERNAL_SERVER_ERROR" },
+        });
+      return res;
+    },
+    termWeeks: async (_: unknown, args: unknown, { db }: GraphQLContext) => {
+      const parsedArgs = calendarQuerySchema.parse(args);
+      const service = new WeekService(db);
+      const res = await service.getTermWeeks(parsedArgs);
+      if (!res)
+        throw new GraphQLError(`Term ${parsedArgs.year} ${parsedArgs.quarter} not found`, {
+          extensions: { code: "NOT_FOUND" },
+        });
+      return res;
+    },
   },
 };
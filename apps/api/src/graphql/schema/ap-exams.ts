@@ -19,6 +19,6 @@ input APExamsQuery {
 }
 
 extend type Query {
-    apExams(query: APExamsQuery): [APExam!]!
+    apExams(query: APExamsQuery): [APExam!]! @scope(name: apExams)
 }
 `;
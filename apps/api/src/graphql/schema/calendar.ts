@@ -9,8 +9,23 @@ type CalendarTerm @cacheControl(maxAge: 86400) {
     socAvailable: String!
 }
 
+enum CalendarEventType {
+    Holiday
+    AddDropDeadline
+    GradeOptionDeadline
+    Commencement
+}
+
+type CalendarEvent @cacheControl(maxAge: 86400) {
+    type: CalendarEventType!
+    title: String!
+    startDate: String!
+    endDate: String!
+}
+
 extend type Query {
-    calendarTerm(year: String!, quarter: Term!): CalendarTerm!
-    allCalendarTerms: [CalendarTerm!]!
+    calendarTerm(year: String!, quarter: Term!): CalendarTerm! @scope(name: calendar)
+    allCalendarTerms: [CalendarTerm!]! @scope(name: calendar)
+    calendarEvents(year: String!, quarter: Term!): [CalendarEvent!]! @scope(name: calendar)
 }
 `;
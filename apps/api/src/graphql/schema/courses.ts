@@ -33,6 +33,28 @@ type Course @cacheControl(maxAge: 86400) {
     geList: [String!]!
     geText: String!
     terms: [String!]!
+    prerequisiteGraph(depth: Int, completedCourses: [String!]): PrerequisiteGraph! @cost(weight: 10)
+    sections(year: String!, quarter: Term!): [WebsocSection!]! @scope(name: websoc) @cost(weight: 10) @listSize(assumedSize: 10)
+    grades: [RawGrade!]! @scope(name: grades) @cost(weight: 10) @listSize(assumedSize: 50)
+    enrollmentHistory: [EnrollmentHistory!]! @scope(name: enrollmentHistory) @cost(weight: 10) @listSize(assumedSize: 50)
+}
+
+type PrerequisiteGraphNode @cacheControl(maxAge: 86400) {
+    id: String!
+    title: String
+    depth: Int!
+}
+
+type PrerequisiteGraphEdge @cacheControl(maxAge: 86400) {
+    prerequisiteId: String!
+    dependencyId: String!
+}
+
+type PrerequisiteGraph @cacheControl(maxAge: 86400) {
+    nodes: [PrerequisiteGraphNode!]!
+    edges: [PrerequisiteGraphEdge!]!
+    cycles: [[String!]!]!
+    minimumQuarters: Int
 }
 
 type CoursesByCursor {
@@ -69,9 +91,9 @@ input CoursesByCursorQuery {
 }
 
 extend type Query {
-    batchCourses(ids: [String!]!): [Course!]!
-    course(id: String!): Course!
-    courses(query: CoursesQuery!): [Course!]!
-    coursesByCursor(query: CoursesByCursorQuery!): CoursesByCursor!
+    batchCourses(ids: [String!]!): [Course!]! @scope(name: courses)
+    course(id: String!): Course! @scope(name: courses)
+    courses(query: CoursesQuery!): [Course!]! @scope(name: courses)
+    coursesByCursor(query: CoursesByCursorQuery!): CoursesByCursor! @scope(name: courses)
 }
 `;
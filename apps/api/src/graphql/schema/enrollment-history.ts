@@ -5,6 +5,19 @@ type EnrollmentHistoryMeeting @cacheControl(maxAge: 300) {
     time: String!
 }
 
+type EnrollmentDelta @cacheControl(maxAge: 300) {
+    date: String!
+    totalEnrolledDelta: Int
+    waitlistDelta: Int
+}
+
+type EnrollmentAnalytics @cacheControl(maxAge: 300) {
+    enrollmentDeltas: [EnrollmentDelta!]!
+    firstFullDate: String
+    projectedFillDate: String
+    priorOfferingCount: Int!
+}
+
 type EnrollmentHistory @cacheControl(maxAge: 300) {
     year: String!
     quarter: Term!
@@ -25,6 +38,43 @@ type EnrollmentHistory @cacheControl(maxAge: 300) {
     requestedHistory: [String!]!
     newOnlyReservedHistory: [String!]!
     statusHistory: [String!]!
+    analytics: EnrollmentAnalytics! @cost(weight: 10)
+}
+
+type EnrollmentSnapshot @cacheControl(maxAge: 300) {
+    date: String!
+    maxCapacity: Int!
+    totalEnrolled: Int
+    waitlist: Int
+    waitlistCap: Int
+    requested: Int
+    newOnlyReserved: Int
+    status: String
+}
+
+type EnrollmentHistoryTimeseries @cacheControl(maxAge: 300) {
+    year: String!
+    quarter: Term!
+    sectionCode: String!
+    department: String!
+    courseNumber: String!
+    sectionType: SectionType!
+    sectionNum: String!
+    units: String!
+    instructors: [String!]!
+    meetings: [EnrollmentHistoryMeeting!]!
+    finalExam: String!
+    history: [EnrollmentSnapshot!]!
+}
+
+type EnrollmentHistoryByCursor {
+    items: [EnrollmentHistory!]!
+    nextCursor: String
+}
+
+type EnrollmentHistoryTimeseriesByCursor {
+    items: [EnrollmentHistoryTimeseries!]!
+    nextCursor: String
 }
 
 input EnrollmentHistoryQuery {
@@ -37,7 +87,22 @@ input EnrollmentHistoryQuery {
     sectionType: SectionType
 }
 
+input EnrollmentHistoryByCursorQuery {
+    year: String
+    quarter: Term
+    instructorName: String
+    department: String
+    courseNumber: String
+    sectionCode: Int
+    sectionType: SectionType
+    cursor: String
+    take: Int
+}
+
 extend type Query {
-    enrollmentHistory(query: EnrollmentHistoryQuery): [EnrollmentHistory!]!
+    enrollmentHistory(query: EnrollmentHistoryQuery): [EnrollmentHistory!]! @scope(name: enrollmentHistory)
+    enrollmentHistoryTimeseries(query: EnrollmentHistoryQuery): [EnrollmentHistoryTimeseries!]! @scope(name: enrollmentHistory)
+    enrollmentHistoryByCursor(query: EnrollmentHistoryByCursorQuery!): EnrollmentHistoryByCursor! @scope(name: enrollmentHistory)
+    enrollmentHistoryTimeseriesByCursor(query: EnrollmentHistoryByCursorQuery!): EnrollmentHistoryTimeseriesByCursor! @scope(name: enrollmentHistory)
 }
 `;
@@ -19,6 +19,11 @@ type RawGrade @cacheControl(maxAge: 86400) {
     averageGPA: Float
 }
 
+type RawGradesByCursor {
+    items: [RawGrade!]!
+    nextCursor: String
+}
+
 type GradesOptions @cacheControl(maxAge: 86400) {
     years: [String!]!
     departments: [String!]!
@@ -83,6 +88,35 @@ type AggregateGradeByOffering @cacheControl(maxAge: 86400) {
     averageGPA: Float
 }
 
+type GradesForecastSection @cacheControl(maxAge: 86400) {
+    year: String!
+    quarter: Term!
+    sectionCode: String!
+    department: String!
+    courseNumber: String!
+    instructors: [String!]!
+}
+
+type GradesForecastDistribution @cacheControl(maxAge: 86400) {
+    sectionCount: Int!
+    gradeACount: Int!
+    gradeBCount: Int!
+    gradeCCount: Int!
+    gradeDCount: Int!
+    gradeFCount: Int!
+    gradePCount: Int!
+    gradeNPCount: Int!
+    gradeWCount: Int!
+    averageGPA: Float
+}
+
+type GradesForecast @cacheControl(maxAge: 86400) {
+    section: GradesForecastSection!
+    offering: GradesForecastDistribution!
+    course: GradesForecastDistribution!
+    instructors: GradesForecastDistribution!
+}
+
 input GradesQuery {
     year: String
     quarter: Term
@@ -95,11 +129,33 @@ input GradesQuery {
     excludePNP: Boolean
 }
 
+input RawGradesByCursorQuery {
+    year: String
+    quarter: Term
+    instructor: String
+    department: String
+    courseNumber: String
+    sectionCode: String
+    division: CourseLevel
+    ge: String
+    excludePNP: Boolean
+    cursor: String
+    take: Int
+}
+
+input GradesForecastQuery {
+    year: String!
+    quarter: Term!
+    sectionCode: String!
+}
+
 extend type Query {
-    rawGrades(query: GradesQuery): [RawGrade!]!
-    gradesOptions(query: GradesQuery): GradesOptions!
-    aggregateGrades(query: GradesQuery): AggregateGrades!
-    aggregateGradesByCourse(query: GradesQuery): [AggregateGradeByCourse!]!
-    aggregateGradesByOffering(query: GradesQuery): [AggregateGradeByOffering!]!
+    rawGrades(query: GradesQuery): [RawGrade!]! @scope(name: grades)
+    rawGradesByCursor(query: RawGradesByCursorQuery!): RawGradesByCursor! @scope(name: grades)
+    gradesOptions(query: GradesQuery): GradesOptions! @scope(name: grades)
+    aggregateGrades(query: GradesQuery): AggregateGrades! @scope(name: grades)
+    aggregateGradesByCourse(query: GradesQuery): [AggregateGradeByCourse!]! @scope(name: grades)
+    aggregateGradesByOffering(query: GradesQuery): [AggregateGradeByOffering!]! @scope(name: grades)
+    gradesForecast(query: GradesForecastQuery!): GradesForecast! @scope(name: grades)
 }
 `;
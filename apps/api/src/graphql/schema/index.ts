@@ -26,6 +26,24 @@ directive @cacheControl(
     inheritMaxAge: Boolean
 ) on FIELD_DEFINITION | OBJECT | INTERFACE | UNION
 
+enum Scope {
+    apExams
+    calendar
+    courses
+    enrollmentHistory
+    grades
+    instructors
+    larc
+    programs
+    search
+    studyRooms
+    websoc
+}
+directive @scope(name: Scope!) on FIELD_DEFINITION
+
+directive @cost(weight: Int!) on FIELD_DEFINITION
+directive @listSize(assumedSize: Int!) on FIELD_DEFINITION
+
 type Query {
     empty: String
 }
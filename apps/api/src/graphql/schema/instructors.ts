@@ -24,6 +24,7 @@ type Instructor @cacheControl(maxAge: 86400) {
     department: String!
     shortenedNames: [String!]!
     courses: [CoursePreviewWithTerms!]!
+    grades: [RawGrade!]! @scope(name: grades) @cost(weight: 10) @listSize(assumedSize: 50)
 }
 
 type InstructorsByCursor {
@@ -48,9 +49,9 @@ input InstructorsByCursorQuery {
 }
 
 extend type Query {
-    batchInstructors(ucinetids: [String!]!): [Instructor!]!
-    instructor(ucinetid: String!): Instructor!
-    instructors(query: InstructorsQuery!): [Instructor!]!
-    instructorsByCursor(query: InstructorsByCursorQuery!): InstructorsByCursor!
+    batchInstructors(ucinetids: [String!]!): [Instructor!]! @scope(name: instructors)
+    instructor(ucinetid: String!): Instructor! @scope(name: instructors)
+    instructors(query: InstructorsQuery!): [Instructor!]! @scope(name: instructors)
+    instructorsByCursor(query: InstructorsByCursorQuery!): InstructorsByCursor! @scope(name: instructors)
 }
 `;
@@ -23,6 +23,11 @@ type LarcResponse @cacheControl(maxAge: 300) {
     courses: [LarcCourse!]!
 }
 
+type LarcByCursor {
+    items: [LarcCourse!]!
+    nextCursor: String
+}
+
 input LarcQuery {
     instructorName: String
     building: String
@@ -35,7 +40,22 @@ input LarcQuery {
     endTime: String
 }
 
+input LarcByCursorQuery {
+    instructorName: String
+    building: String
+    department: String
+    courseNumber: String
+    year: String
+    quarter: String
+    days: String
+    startTime: String
+    endTime: String
+    cursor: String
+    take: Int
+}
+
 extend type Query {
-    larc(query: LarcQuery): LarcResponse!
+    larc(query: LarcQuery): LarcResponse! @scope(name: larc)
+    larcByCursor(query: LarcByCursorQuery!): LarcByCursor! @scope(name: larc)
 }
 `;
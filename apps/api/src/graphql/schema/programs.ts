@@ -100,6 +100,17 @@ type UgradRequirements @cacheControl(maxAge: 86400) {
     requirements: [ProgramRequirement!]!,
 }
 
+type CourseProgram @cacheControl(maxAge: 86400) {
+    programType: String!
+    id: String!
+    name: String!
+    requirementLabels: [String!]!
+}
+
+extend type Course {
+    programs: [CourseProgram!]! @scope(name: programs) @cost(weight: 10) @listSize(assumedSize: 10)
+}
+
 input ProgramRequirementsQuery {
     programId: String!
 }
@@ -121,12 +132,12 @@ input UgradRequrementsQuery {
 }
 
 extend type Query {
-    majors(query: MajorsQuery): [MajorPreview!]!
-    minors(query: MinorsQuery): [MinorPreview!]!
-    specializations(query: SpecializationsQuery): [SpecializationPreview!]!
-    major(query: ProgramRequirementsQuery!): Major!
-    minor(query: ProgramRequirementsQuery!): Minor!
-    specialization(query: ProgramRequirementsQuery!): Specialization!
-    ugradRequirements(query: UgradRequrementsQuery!): UgradRequirements!
+    majors(query: MajorsQuery): [MajorPreview!]! @scope(name: programs)
+    minors(query: MinorsQuery): [MinorPreview!]! @scope(name: programs)
+    specializations(query: SpecializationsQuery): [SpecializationPreview!]! @scope(name: programs)
+    major(query: ProgramRequirementsQuery!): Major! @scope(name: programs)
+    minor(query: ProgramRequirementsQuery!): Minor! @scope(name: programs)
+    specialization(query: ProgramRequirementsQuery!): Specialization! @scope(name: programs)
+    ugradRequirements(query: UgradRequrementsQuery!): UgradRequirements! @scope(name: programs)
 }
 `;
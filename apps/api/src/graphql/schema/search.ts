@@ -18,6 +18,6 @@ input SearchQuery {
 }
 
 extend type Query {
-    search(query: SearchQuery!): SearchResponse!
+    search(query: SearchQuery!): SearchResponse! @scope(name: search)
 }
 `;
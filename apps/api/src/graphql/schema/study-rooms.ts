@@ -29,7 +29,7 @@ export const studyRoomsGraphQLSchema = `#graphql
   }
 
   extend type Query {
-    studyRoom(id: String!): StudyRoom!
-    studyRooms(query: StudyRoomsQuery): [StudyRoom!]!
+    studyRoom(id: String!): StudyRoom! @scope(name: studyRooms)
+    studyRooms(query: StudyRoomsQuery): [StudyRoom!]! @scope(name: studyRooms)
   }
 `;
@@ -30,7 +30,7 @@ type WebsocSectionCurrentlyEnrolled @cacheControl(maxAge: 300) {
 type WebsocSection @cacheControl(maxAge: 300) {
     units: String!
     status: String!
-    meetings: [WebsocSectionMeeting!]!
+    meetings: [WebsocSectionMeeting!]! @listSize(assumedSize: 2)
     finalExam: WebsocSectionFinalExam!
     sectionNum: String!
     instructors: [String!]!
@@ -45,10 +45,12 @@ type WebsocSection @cacheControl(maxAge: 300) {
     numNewOnlyReserved: String!
     numCurrentlyEnrolled: WebsocSectionCurrentlyEnrolled!
     updatedAt: String!
+    course: Course @scope(name: courses) @cost(weight: 10)
+    enrollmentHistory: EnrollmentHistory @scope(name: enrollmentHistory) @cost(weight: 10)
 }
 
 type WebsocCourse @cacheControl(maxAge: 300) {
-    sections: [WebsocSection!]!
+    sections: [WebsocSection!]! @listSize(assumedSize: 5)
     deptCode: String!
     courseTitle: String!
     courseNumber: String!
@@ -66,7 +68,7 @@ type WebsocCoursePreview @cacheControl(maxAge: 300) {
 }
 
 type WebsocDepartment @cacheControl(maxAge: 300) {
-    courses: [WebsocCourse!]!
+    courses: [WebsocCourse!]! @listSize(assumedSize: 20)
     deptCode: String!
     deptName: String!
     deptComment: String!
@@ -76,14 +78,19 @@ type WebsocDepartment @cacheControl(maxAge: 300) {
 }
 
 type WebsocSchool @cacheControl(maxAge: 300) {
-    departments: [WebsocDepartment!]!
+    departments: [WebsocDepartment!]! @listSize(assumedSize: 1)
     schoolName: String!
     schoolComment: String!
     updatedAt: String!
 }
 
 type WebsocResponse @cacheControl(maxAge: 300) {
-    schools: [WebsocSchool!]!
+    schools: [WebsocSchool!]! @listSize(assumedSize: 1)
+}
+
+type WebsocByCursor {
+    items: [WebsocSchool!]! @listSize(assumedSize: 1)
+    nextCursor: String
 }
 
 type WebsocTerm @cacheControl(maxAge: 300) {
@@ -91,6 +98,46 @@ type WebsocTerm @cacheControl(maxAge: 300) {
     longName: String!
 }
 
+type WebsocMeetingConflict @cacheControl(maxAge: 300) {
+    sectionCodes: [String!]!
+    days: [String!]!
+    startTime: HourMinute!
+    endTime: HourMinute!
+}
+
+type WebsocFinalExamConflict @cacheControl(maxAge: 300) {
+    sectionCodes: [String!]!
+    month: Int!
+    day: Int!
+    startTime: HourMinute!
+    endTime: HourMinute!
+}
+
+type WebsocConflicts @cacheControl(maxAge: 300) {
+    meetingConflicts: [WebsocMeetingConflict!]!
+    finalExamConflicts: [WebsocFinalExamConflict!]!
+    tbaMeetings: [String!]!
+    tbaFinalExams: [String!]!
+    notFound: [String!]!
+}
+
+type WebsocScheduleSection @cacheControl(maxAge: 300) {
+    courseId: String!
+    sectionCode: String!
+    sectionType: SectionType!
+    sectionNum: String!
+}
+
+type WebsocSchedule @cacheControl(maxAge: 300) {
+    sections: [WebsocScheduleSection!]!
+}
+
+type WebsocSchedules @cacheControl(maxAge: 300) {
+    schedules: [WebsocSchedule!]!
+    coursesWithoutSections: [String!]!
+    searchLimitReached: Boolean!
+}
+
 input WebsocQuery {
     year: String!
     quarter: Term!
@@ -113,8 +160,52 @@ input WebsocQuery {
     includeRelatedCourses: Boolean
 }
 
+input WebsocByCursorQuery {
+    year: String!
+    quarter: Term!
+    ge: String
+    department: String
+    courseNumber: String
+    sectionCodes: String
+    instructorName: String
+    days: String
+    building: String
+    room: String
+    division: String
+    sectionType: String
+    fullCourses: String
+    cancelledCourses: String
+    units: String
+    startTime: String
+    endTime: String
+    excludeRestrictionCodes: String
+    cursor: String
+    take: Int
+}
+
+input WebsocConflictsQuery {
+    year: String!
+    quarter: Term!
+    sectionCodes: String!
+}
+
+input WebsocSchedulesQuery {
+    year: String!
+    quarter: Term!
+    courseIds: String!
+    earliestStart: String
+    latestEnd: String
+    excludedDays: String
+    skipFull: Boolean
+    take: Int
+}
+
 extend type Query {
-    websoc(query: WebsocQuery!): WebsocResponse!
-    terms: [WebsocTerm!]!
+    websoc(query: WebsocQuery!): WebsocResponse! @scope(name: websoc)
+    websocByCursor(query: WebsocByCursorQuery!): WebsocByCursor! @scope(name: websoc)
+    terms: [WebsocTerm!]! @scope(name: websoc)
+    websocConflicts(query: WebsocConflictsQuery!): WebsocConflicts! @scope(name: websoc)
+    websocSchedules(query: WebsocSchedulesQuery!): WebsocSchedules! @scope(name: websoc)
+    websocSection(year: String!, quarter: Term!, sectionCode: String!): WebsocSection! @scope(name: websoc)
 }
 `;
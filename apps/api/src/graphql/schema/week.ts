@@ -5,7 +5,34 @@ type WeekData {
     display: String!
 }
 
+type DatedWeekData {
+    date: String!
+    weeks: [Int!]!
+    quarters: [String!]!
+    display: String!
+}
+
+type Week @cacheControl(maxAge: 86400) {
+    week: Int!
+    start: String!
+    end: String!
+}
+
+type WeekSpan @cacheControl(maxAge: 86400) {
+    start: String!
+    end: String!
+}
+
+type TermWeeks @cacheControl(maxAge: 86400) {
+    year: String!
+    quarter: Term!
+    weeks: [Week!]!
+    finals: WeekSpan!
+}
+
 extend type Query {
-    week(year: Int, month: Int, day: Int): WeekData!
+    week(year: Int, month: Int, day: Int): WeekData! @scope(name: calendar)
+    weekBatch(dates: String!): [DatedWeekData!]! @scope(name: calendar)
+    termWeeks(year: String!, quarter: Term!): TermWeeks! @scope(name: calendar)
 }
 `;
@@ -8,6 +8,7 @@ import {
   openapiMeta,
   redirectBrowserToDocs,
   referenceOgTagInjector,
+  usageRecorder,
 } from "$middleware";
 import { restRouter } from "$rest";
 import type { ErrorSchema } from "$schema";
@@ -56,6 +57,7 @@ app.use("/v2/*", headerInjector);
 app.use("/v2/*", keyVerifier);
 app.use("/v2/*", globalRateLimiter);
 app.use("/v2/*", ipBasedRateLimiter);
+app.use("/v2/*", usageRecorder);
 app.use("/v2/*", cors());
 
 // REST/GraphQL router configuration
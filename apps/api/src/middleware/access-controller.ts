@@ -1,4 +1,9 @@
-import type { AccessControlledResource, KeyData } from "@packages/key-types";
+import {
+  type AccessControlledResource,
+  type KeyData,
+  type Scope,
+  isScopeGranted,
+} from "@packages/key-types";
 import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
 
@@ -16,7 +21,7 @@ export const accessController = (resource: AccessControlledResource) =>
     }
     const [_, key] = header.split(" ", 2);
     const keyData = await c.env.API_KEYS.get<KeyData>(key, { type: "json" });
-    if (!keyData) throw new HTTPException(401, { message: "Invalid or expired API key" });
+    if (!keyData) throw new HTTPException(401, { message: "Invalid API key" });
     if (!keyData.resources?.[resource]) {
       throw new HTTPException(401, {
         message: "The specified API key is not permitted to access this resource",
@@ -24,3 +29,25 @@ export const accessController = (resource: AccessControlledResource) =>
     }
     await next();
   });
+
+/**
+ * Middleware for restricting requests made using scoped API keys to the scopes they were granted.
+ * Requests made without an API key are not restricted.
+ *
+ * Like `accessController`, this assumes the API key, if provided, is valid.
+ */
+export const scopeController = (scope: Scope) =>
+  createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const header = c.req.header("authorization");
+    if (header) {
+      const [_, key] = header.split(" ", 2);
+      const keyData = await c.env.API_KEYS.get<KeyData>(key, { type: "json" });
+      if (!keyData) throw new HTTPException(401, { message: "Invalid API key" });
+      if (!isScopeGranted(keyData, scope)) {
+        throw new HTTPException(401, {
+          message: `The specified API key is not permitted to access data in scope '${scope}'`,
+        });
+      }
+    }
+    await next();
+  });
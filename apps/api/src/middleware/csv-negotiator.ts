@@ -0,0 +1,69 @@
+import { flattenForCSV, toCSV } from "$services";
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    responseFormat?: "csv" | "json";
+  }
+}
+
+/**
+ * Returns the quality with which the given media type is accepted according to the given `Accept` header,
+ * per https://www.rfc-editor.org/rfc/rfc9110#section-12.5.1.
+ */
+function getQuality(accept: string, mediaType: string) {
+  let quality = 0;
+  let specificity = -1;
+  for (const range of accept.split(",")) {
+    const [type, ...params] = range.split(";").map((part) => part.trim().toLowerCase());
+    const rangeSpecificity =
+      type === mediaType
+        ? 2
+        : type === `${mediaType.split("/")[0]}/*`
+          ? 1
+          : type === "*/*"
+            ? 0
+            : -1;
+    if (rangeSpecificity > specificity) {
+      const q = params.find((param) => param.startsWith("q="));
+      quality = q ? Number.parseFloat(q.slice(2)) || 0 : 1;
+      specificity = rangeSpecificity;
+    }
+  }
+  return quality;
+}
+
+/**
+ * Returns whether the client asked for CSV instead of JSON, either using the `format` query parameter or,
+ * if that is absent, by preferring `text/csv` over `application/json` in its `Accept` header.
+ */
+function prefersCSV(c: Context) {
+  const format = c.req.query("format");
+  if (format) return format === "csv";
+  const accept = c.req.header("accept");
+  return !!accept && getQuality(accept, "text/csv") > getQuality(accept, "application/json");
+}
+
+/**
+ * Middleware for serving successful JSON responses as CSV to clients which prefer it.
+ *
+ * The data in the response is flattened into rows (see `flattenForCSV`); data consisting only of a list
+ * (e.g. `{ courses: [...] }`) is flattened as that list.
+ *
+ * This must be registered before `productionCache`, so that the JSON response is what gets cached, and so that
+ * the negotiated format is known when the cache validators are computed.
+ */
+export const csvNegotiator = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  c.set("responseFormat", prefersCSV(c) ? "csv" : "json");
+  await next();
+  c.header("Vary", "Accept", { append: true });
+  if (c.get("responseFormat") !== "csv" || c.res.status !== 200) return;
+  if (!c.res.headers.get("content-type")?.startsWith("application/json")) return;
+  const { data } = await c.res.json<{ data: unknown }>();
+  const fields =
+    data && typeof data === "object" && !Array.isArray(data) ? Object.values(data) : [];
+  const rows = flattenForCSV(fields.length === 1 && Array.isArray(fields[0]) ? fields[0] : data);
+  c.res = new Response(toCSV(rows), c.res);
+  c.header("Content-Type", "text/csv; charset=utf-8");
+});
@@ -1,12 +1,22 @@
 import type { ErrorSchema } from "$schema";
 import { DurableObjectStore } from "@hono-rate-limiter/cloudflare";
 import type { KeyData } from "@packages/key-types";
-import { rateLimiter } from "hono-rate-limiter";
+import type { Context } from "hono";
+import { type RateLimitInfo, rateLimiter } from "hono-rate-limiter";
 import { createMiddleware } from "hono/factory";
+import { ipRateLimitKey } from "./ip-based-rate-limiter";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    rateLimit?: RateLimitInfo;
+  }
+}
 
 const MILLISECONDS_PER_HOUR = 60 * 60 * 1_000;
 const REQUESTS_PER_HOUR = 25_000;
 
+export const globalRateLimitKey = (c: Context) => c.req.header("authorization") ?? "";
+
 export const globalRateLimiter = createMiddleware<{ Bindings: Env }>((c, next) =>
   rateLimiter<{ Bindings: Env }>({
     windowMs: MILLISECONDS_PER_HOUR,
@@ -19,7 +29,7 @@ export const globalRateLimiter = createMiddleware<{ Bindings: Env }>((c, next) =
         : REQUESTS_PER_HOUR;
     },
     store: new DurableObjectStore({ namespace: c.env.RATE_LIMITER }),
-    keyGenerator: (c) => c.req.header("authorization") ?? "",
+    keyGenerator: globalRateLimitKey,
     handler: (c) =>
       c.json<ErrorSchema>(
         { ok: false, message: "Too many requests, please try again later." },
@@ -27,3 +37,27 @@ export const globalRateLimiter = createMiddleware<{ Bindings: Env }>((c, next) =
       ),
   })(c, next),
 );
+
+/**
+ * Counts the given number of additional requests against the rate limit which applies to this request,
+ * i.e. that of its API key, or that of its IP address if it was made without one.
+ *
+ * Returns `false` without counting anything if doing so would exceed the rate limit.
+ */
+export async function chargeRateLimit(c: Context<{ Bindings: Env }>, hits: number) {
+  const rateLimit = c.get("rateLimit");
+  if (!rateLimit || hits <= 0) return true;
+  if (hits > rateLimit.remaining) return false;
+  const store = new DurableObjectStore({ namespace: c.env.RATE_LIMITER });
+  const key = c.req.header("authorization") ? globalRateLimitKey(c) : ipRateLimitKey(c);
+  const { totalHits } = await c.env.RATE_LIMITER.get(store.prefixKey(key)).update(
+    hits,
+    MILLISECONDS_PER_HOUR,
+  );
+  c.set("rateLimit", {
+    ...rateLimit,
+    used: totalHits,
+    remaining: Math.max(rateLimit.limit - totalHits, 0),
+  });
+  return true;
+}
@@ -1,6 +1,22 @@
+import type { RateLimitInfo } from "hono-rate-limiter";
 import { createMiddleware } from "hono/factory";
 
-export const headerInjector = createMiddleware(async (c, next) => {
-  await next();
-  c.res.headers.append("X-Powered-By", "Anteater-API/2.0 (https://github.com/icssc/anteater-api)");
-});
+export const headerInjector = createMiddleware<{ Variables: { rateLimit?: RateLimitInfo } }>(
+  async (c, next) => {
+    await next();
+    c.res.headers.append(
+      "X-Powered-By",
+      "Anteater-API/2.0 (https://github.com/icssc/anteater-api)",
+    );
+    const rateLimit = c.get("rateLimit");
+    if (rateLimit) {
+      c.res.headers.set("X-RateLimit-Remaining", rateLimit.remaining.toString(10));
+      if (rateLimit.resetTime) {
+        c.res.headers.set(
+          "X-RateLimit-Reset",
+          Math.ceil(rateLimit.resetTime.getTime() / 1000).toString(10),
+        );
+      }
+    }
+  },
+);
@@ -1,4 +1,5 @@
 export * from "./access-controller";
+export * from "./csv-negotiator";
 export * from "./global-rate-limiter";
 export * from "./header-injector";
 export * from "./ip-based-rate-limiter";
@@ -7,3 +8,4 @@ export * from "./openapi-meta";
 export * from "./production-cache";
 export * from "./redirect-browser-to-docs";
 export * from "./reference-og-tag-injector";
+export * from "./usage-recorder";
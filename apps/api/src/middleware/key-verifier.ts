@@ -1,4 +1,4 @@
-import type { KeyData } from "@packages/key-types";
+import { type KeyData, isKeyExpired, isOriginAllowed } from "@packages/key-types";
 import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
 
@@ -12,10 +12,12 @@ export const keyVerifier = createMiddleware<{ Bindings: Env }>(async (c, next) =
         message: `Authorization scheme '${scheme}' is not supported`,
       });
     const keyData = await c.env.API_KEYS.get<KeyData>(key, { type: "json" });
-    if (!keyData) throw new HTTPException(401, { message: "Invalid or expired API key" });
+    if (!keyData) throw new HTTPException(401, { message: "Invalid API key" });
+    if (isKeyExpired(keyData)) throw new HTTPException(401, { message: "Expired API key" });
     if (keyData._type === "publishable") {
       if (!origin) throw new HTTPException(401, { message: "Origin not provided" });
-      if (!keyData.origins[origin]) throw new HTTPException(401, { message: "Invalid origin" });
+      if (!isOriginAllowed(keyData, origin))
+        throw new HTTPException(401, { message: "Invalid origin" });
     }
   }
   await next();
@@ -1,7 +1,121 @@
+import { MetaService } from "$services";
+import { database } from "@packages/db";
+import type { DataDomain } from "@packages/db/schema";
+import type { Context } from "hono";
 import { cache } from "hono/cache";
 import { createMiddleware } from "hono/factory";
 
-export const productionCache = (cacheOptions: Parameters<typeof cache>[0]) =>
-  createMiddleware<{ Bindings: Env }>(async (c, next) =>
-    c.env.CF_ENV === "prod" ? cache(cacheOptions)(c, next) : await next(),
+type DataVersion = { version: number; updatedAt: Date };
+
+/**
+ * Data versions are looked up at most this often per isolate, so that cached responses can be served
+ * without querying the database every time, at the cost of serving stale responses for this long.
+ */
+const DATA_VERSIONS_TTL_MILLISECONDS = 30_000;
+
+let dataVersions: { versions: Map<DataDomain, DataVersion>; expiresAt: number } | undefined;
+
+/**
+ * Returns the current version of the data in each domain.
+ */
+export async function getDataVersions(env: Env) {
+  if (!dataVersions || dataVersions.expiresAt <= Date.now()) {
+    const service = new MetaService(database(env.DB.connectionString));
+    dataVersions = {
+      versions: new Map(
+        (await service.getDataVersions()).map(({ domain, ...dataVersion }) => [
+          domain,
+          dataVersion,
+        ]),
+      ),
+      expiresAt: Date.now() + DATA_VERSIONS_TTL_MILLISECONDS,
+    };
+  }
+  return dataVersions.versions;
+}
+
+/**
+ * Headers which describe the body of the response replaced by a 304 Not Modified response, which has none.
+ */
+const BODY_HEADERS = [
+  "content-disposition",
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+];
+
+/**
+ * Returns whether the client already has the representation with the given validators,
+ * per https://www.rfc-editor.org/rfc/rfc9110#section-13.2.2.
+ */
+function isNotModified(c: Context, etag: string, updatedAt: Date) {
+  const ifNoneMatch = c.req.header("if-none-match");
+  if (ifNoneMatch) {
+    return (
+      ifNoneMatch.trim() === "*" ||
+      ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag.slice(2))
+    );
+  }
+  const ifModifiedSince = Date.parse(c.req.header("if-modified-since") ?? "");
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(updatedAt.getTime() / 1000) * 1000 <= ifModifiedSince
   );
+}
+
+/**
+ * Returns the key under which the response to this request is cached. On routes which negotiate CSV,
+ * the `format` query parameter only selects the representation of the cached JSON, so it is left out.
+ */
+function getCacheKey(c: Context, dataVersion?: DataVersion) {
+  const url = new URL(c.req.url);
+  if (c.get("responseFormat")) url.searchParams.delete("format");
+  if (dataVersion) url.searchParams.set("_dataVersion", dataVersion.version.toString(10));
+  return url.toString();
+}
+
+/**
+ * Caches responses in production.
+ *
+ * If the domain of the data from which responses are derived is given, cached responses are only served until
+ * the data in that domain is next updated. Successful responses are also given an `ETag` and a `Last-Modified`
+ * header derived from the version of that data, so that clients can make conditional requests, which are answered
+ * with 304 Not Modified if the request would otherwise succeed and the data has not been updated since, and an
+ * `X-Data-Updated-At` header with the precise time at which it was last updated.
+ */
+export const productionCache = (cacheOptions: Parameters<typeof cache>[0], domain?: DataDomain) =>
+  createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const dataVersion = domain && (await getDataVersions(c.env)).get(domain);
+    if (!dataVersion) {
+      return c.env.CF_ENV === "prod"
+        ? cache({ ...cacheOptions, keyGenerator: (c) => getCacheKey(c) })(c, next)
+        : await next();
+    }
+    const etag = `W/"${domain}-${dataVersion.version}${c.get("responseFormat") === "csv" ? "-csv" : ""}"`;
+    const headers = {
+      ETag: etag,
+      "Last-Modified": dataVersion.updatedAt.toUTCString(),
+      "X-Data-Updated-At": dataVersion.updatedAt.toISOString(),
+      ...(c.env.CF_ENV === "prod" &&
+        cacheOptions.cacheControl && { "Cache-Control": cacheOptions.cacheControl }),
+    };
+    if (c.env.CF_ENV === "prod") {
+      const response = await cache({
+        ...cacheOptions,
+        keyGenerator: (c) => getCacheKey(c, dataVersion),
+      })(c, next);
+      if (response) c.res = response;
+    } else {
+      await next();
+    }
+    if (!c.res.ok) return;
+    // conditional requests are only evaluated once it is known that the representation exists
+    if (isNotModified(c, etag, dataVersion.updatedAt)) {
+      c.res = new Response(null, { status: 304, headers });
+      for (const header of BODY_HEADERS) c.res.headers.delete(header);
+      return;
+    }
+    c.res.headers.set("ETag", headers.ETag);
+    c.res.headers.set("Last-Modified", headers["Last-Modified"]);
+    c.res.headers.set("X-Data-Updated-At", headers["X-Data-Updated-At"]);
+  });
@@ -0,0 +1,24 @@
+import { UsageService } from "$services";
+import { database } from "@packages/db";
+import { createMiddleware } from "hono/factory";
+
+/**
+ * Middleware for recording the number of requests made with each API key, by route and day.
+ *
+ * This should be used after the API key has been verified and rate limits have been applied,
+ * so that only requests which were actually served are counted.
+ */
+export const usageRecorder = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  await next();
+  // responses to requests which failed (e.g. due to validation errors or insufficient scopes) are not counted,
+  // but responses to conditional requests which were not modified are
+  if (c.res.status >= 400) return;
+  const header = c.req.header("authorization");
+  if (!header) return;
+  const [_, key] = header.split(" ", 2);
+  // the last matched route which is not a wildcard is the one which handled the request;
+  // requests to the GraphQL endpoint only match wildcards
+  const route = c.req.matchedRoutes.findLast(({ path }) => !path.endsWith("*"))?.path ?? c.req.path;
+  const service = new UsageService(database(c.env.DB.connectionString));
+  c.executionCtx.waitUntil(service.recordUsage(key, route));
+});
@@ -1,35 +1,75 @@
 import { defaultHook } from "$hooks";
+import { scopeController } from "$middleware";
 import { OpenAPIHono } from "@hono/zod-openapi";
 import { apExamsRouter } from "./routes/ap-exams.ts";
 import { calendarRouter } from "./routes/calendar";
 import { coursesCursorRouter, coursesRouter } from "./routes/courses";
-import { enrollmentHistoryRouter } from "./routes/enrollment-history";
-import { gradesRouter } from "./routes/grades";
+import {
+  enrollmentHistoryCursorRouter,
+  enrollmentHistoryRouter,
+} from "./routes/enrollment-history";
+import { exportRouter } from "./routes/export";
+import { gradesCursorRouter, gradesRouter } from "./routes/grades";
 import { instructorsCursorRouter, instructorsRouter } from "./routes/instructors";
-import { larcRouter } from "./routes/larc.ts";
+import { larcCursorRouter, larcRouter } from "./routes/larc.ts";
+import { metaRouter } from "./routes/meta";
 import { pingRouter } from "./routes/ping";
 import { programsRouter } from "./routes/programs.ts";
 import { searchRouter } from "./routes/search";
 import { studyRoomsRouter } from "./routes/study-rooms";
-import { websocRouter } from "./routes/websoc";
+import { usageRouter } from "./routes/usage";
+import { websocCursorRouter, websocRouter } from "./routes/websoc";
 import { weekRouter } from "./routes/week";
 
 const restRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
 
+// Scope checks must be registered before the routers, so that they run before any cached responses are served
+
+restRouter.use("/apExams/*", scopeController("apExams"));
+restRouter.use("/calendar/*", scopeController("calendar"));
+restRouter.use("/courses/*", scopeController("courses"));
+restRouter.use("/coursesCursor/*", scopeController("courses"));
+restRouter.use("/enrollmentHistory/*", scopeController("enrollmentHistory"));
+restRouter.use("/enrollmentHistoryCursor/*", scopeController("enrollmentHistory"));
+restRouter.use("/grades/*", scopeController("grades"));
+restRouter.use("/gradesCursor/*", scopeController("grades"));
+restRouter.use("/instructors/*", scopeController("instructors"));
+restRouter.use("/instructorsCursor/*", scopeController("instructors"));
+restRouter.use("/programs/*", scopeController("programs"));
+restRouter.use("/search/*", scopeController("search"));
+restRouter.use("/websoc/*", scopeController("websoc"));
+restRouter.use("/websocCursor/*", scopeController("websoc"));
+restRouter.use("/week/*", scopeController("calendar"));
+restRouter.use("/studyRooms/*", scopeController("studyRooms"));
+restRouter.use("/larc/*", scopeController("larc"));
+restRouter.use("/larcCursor/*", scopeController("larc"));
+restRouter.use("/export/grades/*", scopeController("grades"));
+restRouter.use("/export/courses/*", scopeController("courses"));
+restRouter.use("/export/instructors/*", scopeController("instructors"));
+restRouter.use("/export/websocSections/*", scopeController("websoc"));
+restRouter.use("/export/enrollmentHistory/*", scopeController("enrollmentHistory"));
+
 restRouter.route("/apExams", apExamsRouter);
 restRouter.route("/calendar", calendarRouter);
 restRouter.route("/courses", coursesRouter);
 restRouter.route("/coursesCursor", coursesCursorRouter);
 restRouter.route("/enrollmentHistory", enrollmentHistoryRouter);
+restRouter.route("/enrollmentHistoryCursor", enrollmentHistoryCursorRouter);
+restRouter.route("/export", exportRouter);
 restRouter.route("/grades", gradesRouter);
+restRouter.route("/gradesCursor", gradesCursorRouter);
 restRouter.route("/instructors", instructorsRouter);
 restRouter.route("/instructorsCursor", instructorsCursorRouter);
 restRouter.route("/ping", pingRouter);
 restRouter.route("/programs", programsRouter);
 restRouter.route("/search", searchRouter);
 restRouter.route("/websoc", websocRouter);
+restRouter.route("/websocCursor", websocCursorRouter);
 restRouter.route("/week", weekRouter);
 restRouter.route("/studyRooms", studyRoomsRouter);
 restRouter.route("/larc", larcRouter);
+restRouter.route("/larcCursor", larcCursorRouter);
+restRouter.route("/meta", metaRouter);
+restRouter.route("/usage", usageRouter);
 
 export { restRouter };
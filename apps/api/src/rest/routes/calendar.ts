@@ -1,6 +1,16 @@
 import { defaultHook } from "$hooks";
-import { productionCache } from "$middleware";
-import { calendarQuerySchema, calendarTermSchema, errorSchema, responseSchema } from "$schema";
+import { csvNegotiator, productionCache } from "$middleware";
+import {
+  calendarEventSchema,
+  calendarFeedQuerySchema,
+  calendarFeedResponseSchema,
+  calendarQuerySchema,
+  calendarTermSchema,
+  csvResponseSchema,
+  errorSchema,
+  responseFormatQuerySchema,
+  responseSchema,
+} from "$schema";
 import { CalendarService } from "$services";
 import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
 import { database } from "@packages/db";
@@ -13,12 +23,13 @@ const calendarTermRoute = createRoute({
   tags: ["Calendar"],
   method: "get",
   path: "/",
-  request: { query: calendarQuerySchema },
+  request: { query: calendarQuerySchema.merge(responseFormatQuerySchema) },
   description: "Retrieves key dates for the provided term.",
   responses: {
     200: {
       content: {
         "application/json": { schema: responseSchema(calendarTermSchema) },
+        "text/csv": { schema: csvResponseSchema },
       },
       description: "Successful operation",
     },
@@ -43,6 +54,7 @@ const allCalendarTermsRoute = createRoute({
   tags: ["Calendar"],
   method: "get",
   path: "/all",
+  request: { query: responseFormatQuerySchema },
   description: "Retrieves all data for all terms that are currently available.",
   responses: {
     200: {
@@ -50,6 +62,7 @@ const allCalendarTermsRoute = createRoute({
         "application/json": {
           schema: responseSchema(calendarTermSchema.array()),
         },
+        "text/csv": { schema: csvResponseSchema },
       },
       description: "Successful operation",
     },
@@ -60,6 +73,66 @@ const allCalendarTermsRoute = createRoute({
   },
 });
 
+const calendarEventsRoute = createRoute({
+  summary: "Retrieve term events",
+  operationId: "calendarEvents",
+  tags: ["Calendar"],
+  method: "get",
+  path: "/events",
+  request: { query: calendarQuerySchema.merge(responseFormatQuerySchema) },
+  description:
+    "Retrieves holidays, add/drop and grade option deadlines, and commencement for the provided term.",
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(calendarEventSchema.array()) },
+        "text/csv": { schema: csvResponseSchema },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const calendarFeedRoute = createRoute({
+  summary: "Subscribe to academic calendar",
+  operationId: "calendarFeed",
+  tags: ["Calendar"],
+  method: "get",
+  path: "/feed.ics",
+  request: { query: calendarFeedQuerySchema },
+  description:
+    "Retrieves key dates for all terms, optionally filtered by year range or quarter, " +
+    "as all-day events in an iCalendar feed.",
+  responses: {
+    200: {
+      content: {
+        "text/calendar": { schema: calendarFeedResponseSchema },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+calendarRouter.use("/", csvNegotiator);
+calendarRouter.use("/all", csvNegotiator);
+calendarRouter.use("/events", csvNegotiator);
+
 calendarRouter.get(
   "*",
   productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
@@ -91,4 +164,24 @@ calendarRouter.openapi(allCalendarTermsRoute, async (c) => {
   );
 });
 
+calendarRouter.openapi(calendarEventsRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new CalendarService(database(c.env.DB.connectionString));
+  return c.json(
+    {
+      ok: true,
+      data: calendarEventSchema.array().parse(await service.getCalendarEvents(query)),
+    },
+    200,
+  );
+});
+
+calendarRouter.openapi(calendarFeedRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new CalendarService(database(c.env.DB.connectionString));
+  return c.text(await service.getCalendarFeed(query), 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+  });
+});
+
 export { calendarRouter };
@@ -2,12 +2,16 @@ import { defaultHook } from "$hooks";
 import { productionCache } from "$middleware";
 import {
   batchCoursesQuerySchema,
+  courseEligibilityBodySchema,
+  courseEligibilitySchema,
   courseSchema,
   coursesByCursorQuerySchema,
   coursesPathSchema,
   coursesQuerySchema,
   cursorResponseSchema,
   errorSchema,
+  prerequisiteGraphQuerySchema,
+  prerequisiteGraphSchema,
   prerequisiteSchema,
   prerequisiteTreeSchema,
   responseSchema,
@@ -128,9 +132,73 @@ const coursesByCursorRoute = createRoute({
   },
 });
 
+const courseEligibilityRoute = createRoute({
+  summary: "Check eligibility for a course",
+  operationId: "courseEligibility",
+  tags: ["Courses"],
+  method: "post",
+  path: "/{id}/eligibility",
+  request: {
+    params: coursesPathSchema,
+    body: { content: { "application/json": { schema: courseEligibilityBodySchema } } },
+  },
+  description:
+    "Evaluates the prerequisite tree of a course against the courses a student has completed or is taking, and the AP Exams they have taken.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(courseEligibilitySchema) } },
+      description: "Successful operation",
+    },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Course not found",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const prerequisiteGraphRoute = createRoute({
+  summary: "Retrieve prerequisite graph of a course",
+  operationId: "prerequisiteGraph",
+  tags: ["Courses"],
+  method: "get",
+  path: "/{id}/prerequisiteGraph",
+  request: { params: coursesPathSchema, query: prerequisiteGraphQuerySchema },
+  description:
+    "Retrieves the transitive prerequisites and dependencies of a course, up to the given depth. If completed courses are provided, also computes the minimum number of quarters needed to complete this course.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(prerequisiteGraphSchema) } },
+      description: "Successful operation",
+    },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Course not found",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
 coursesRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
+  productionCache(
+    { cacheName: "anteater-api", cacheControl: "max-age=86400" },
+    "materializedViews",
+  ),
 );
 
 coursesRouter.openapi(batchCoursesRoute, async (c) => {
@@ -154,6 +222,26 @@ coursesRouter.openapi(courseByIdRoute, async (c) => {
     : c.json({ ok: false, message: `Course ${id} not found` }, 404);
 });
 
+coursesRouter.openapi(courseEligibilityRoute, async (c) => {
+  const { id } = c.req.valid("param");
+  const body = c.req.valid("json");
+  const service = new CoursesService(database(c.env.DB.connectionString));
+  const res = await service.getCourseEligibility(id, body);
+  return res
+    ? c.json({ ok: true, data: courseEligibilitySchema.parse(res) }, 200)
+    : c.json({ ok: false, message: `Course ${id} not found` }, 404);
+});
+
+coursesRouter.openapi(prerequisiteGraphRoute, async (c) => {
+  const { id } = c.req.valid("param");
+  const query = c.req.valid("query");
+  const service = new CoursesService(database(c.env.DB.connectionString));
+  const res = await service.getPrerequisiteGraph(id, query);
+  return res
+    ? c.json({ ok: true, data: prerequisiteGraphSchema.parse(res) }, 200)
+    : c.json({ ok: false, message: `Course ${id} not found` }, 404);
+});
+
 coursesRouter.openapi(coursesByFiltersRoute, async (c) => {
   const query = c.req.valid("query");
   const service = new CoursesService(database(c.env.DB.connectionString));
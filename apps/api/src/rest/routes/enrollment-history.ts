@@ -1,18 +1,26 @@
 import { defaultHook } from "$hooks";
 import { productionCache } from "$middleware";
 import {
+  cursorResponseSchema,
+  enrollmentHistoryAnalyticsQuerySchema,
+  enrollmentHistoryAnalyticsSchema,
+  enrollmentHistoryByCursorQuerySchema,
   enrollmentHistoryQuerySchema,
   enrollmentHistorySchema,
+  enrollmentHistoryTimeseriesSchema,
   errorSchema,
   responseSchema,
 } from "$schema";
 import { EnrollmentHistoryService } from "$services";
-import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
 import { database } from "@packages/db";
 
 const enrollmentHistoryRouter = new OpenAPIHono<{ Bindings: Env }>({
   defaultHook,
 });
+const enrollmentHistoryCursorRouter = new OpenAPIHono<{ Bindings: Env }>({
+  defaultHook,
+});
 
 const enrollmentHistoryRoute = createRoute({
   summary: "Filter enrollment history",
@@ -27,7 +35,70 @@ const enrollmentHistoryRoute = createRoute({
     200: {
       content: {
         "application/json": {
-          schema: responseSchema(enrollmentHistorySchema.array()),
+          schema: responseSchema(
+            z.union([enrollmentHistorySchema.array(), enrollmentHistoryTimeseriesSchema.array()]),
+          ),
+        },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const enrollmentHistoryByCursorRoute = createRoute({
+  summary: "Filter enrollment history with cursor pagination",
+  operationId: "enrollmentHistoryByCursor",
+  tags: ["Enrollment History"],
+  method: "get",
+  path: "/",
+  request: { query: enrollmentHistoryByCursorQuerySchema },
+  description:
+    "Retrieves historical enrollment data for the given parameters with cursor-based pagination, " +
+    "in order of year, quarter, and section code. Granular history arrays only available for recent terms.",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: cursorResponseSchema(
+            z.union([enrollmentHistorySchema.array(), enrollmentHistoryTimeseriesSchema.array()]),
+          ),
+        },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const enrollmentHistoryAnalyticsRoute = createRoute({
+  summary: "Filter enrollment history analytics",
+  operationId: "enrollmentHistoryAnalytics",
+  tags: ["Enrollment History"],
+  method: "get",
+  path: "/analytics",
+  request: { query: enrollmentHistoryAnalyticsQuerySchema },
+  description:
+    "Retrieves analytics derived from historical enrollment data for the given parameters, including day-over-day changes in enrollment, when each section became full, and when currently open sections are projected to fill.",
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: responseSchema(enrollmentHistoryAnalyticsSchema.array()),
         },
       },
       description: "Successful operation",
@@ -45,7 +116,7 @@ const enrollmentHistoryRoute = createRoute({
 
 enrollmentHistoryRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }),
+  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }, "websoc"),
 );
 
 enrollmentHistoryRouter.openapi(enrollmentHistoryRoute, async (c) => {
@@ -54,10 +125,60 @@ enrollmentHistoryRouter.openapi(enrollmentHistoryRoute, async (c) => {
   return c.json(
     {
       ok: true,
-      data: enrollmentHistorySchema.array().parse(await service.getEnrollmentHistory(query)),
+      data:
+        query.format === "timeseries"
+          ? enrollmentHistoryTimeseriesSchema
+              .array()
+              .parse(await service.getEnrollmentHistoryTimeseries(query))
+          : enrollmentHistorySchema.array().parse(await service.getEnrollmentHistory(query)),
+    },
+    200,
+  );
+});
+
+enrollmentHistoryRouter.openapi(enrollmentHistoryAnalyticsRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new EnrollmentHistoryService(database(c.env.DB.connectionString));
+  return c.json(
+    {
+      ok: true,
+      data: enrollmentHistoryAnalyticsSchema
+        .array()
+        .parse(await service.getEnrollmentHistoryAnalytics(query)),
+    },
+    200,
+  );
+});
+
+enrollmentHistoryCursorRouter.openapi(enrollmentHistoryByCursorRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new EnrollmentHistoryService(database(c.env.DB.connectionString));
+
+  if (query.format === "timeseries") {
+    const { items, nextCursor } = await service.getEnrollmentHistoryTimeseriesByCursor(query);
+    return c.json(
+      {
+        ok: true,
+        data: {
+          items: enrollmentHistoryTimeseriesSchema.array().parse(items),
+          nextCursor: nextCursor,
+        },
+      },
+      200,
+    );
+  }
+
+  const { items, nextCursor } = await service.getEnrollmentHistoryByCursor(query);
+  return c.json(
+    {
+      ok: true,
+      data: {
+        items: enrollmentHistorySchema.array().parse(items),
+        nextCursor: nextCursor,
+      },
     },
     200,
   );
 });
 
-export { enrollmentHistoryRouter };
+export { enrollmentHistoryRouter, enrollmentHistoryCursorRouter };
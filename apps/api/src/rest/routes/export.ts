@@ -0,0 +1,160 @@
+import { defaultHook } from "$hooks";
+import { accessController } from "$middleware";
+import {
+  coursesExportQuerySchema,
+  enrollmentHistoryExportQuerySchema,
+  errorSchema,
+  exportResponseSchema,
+  gradesExportQuerySchema,
+  instructorsExportQuerySchema,
+  websocSectionsExportQuerySchema,
+} from "$schema";
+import { ExportService, toExportStream } from "$services";
+import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
+import { database } from "@packages/db";
+import type { Context, TypedResponse } from "hono";
+
+const exportRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
+
+const exportResponses = {
+  200: {
+    content: {
+      "text/csv": { schema: exportResponseSchema },
+      "application/x-ndjson": { schema: exportResponseSchema },
+    },
+    description: "Successful operation",
+  },
+  401: {
+    content: { "application/json": { schema: errorSchema } },
+    description: "API key not provided or not permitted to access this resource",
+  },
+  422: {
+    content: { "application/json": { schema: errorSchema } },
+    description: "Parameters failed validation",
+  },
+  500: {
+    content: { "application/json": { schema: errorSchema } },
+    description: "Server error occurred",
+  },
+};
+
+const gradesExportRoute = createRoute({
+  summary: "Export grades",
+  operationId: "exportGrades",
+  tags: ["Export"],
+  method: "get",
+  path: "/grades",
+  request: { query: gradesExportQuerySchema },
+  description:
+    "Exports the raw grades of every section matching the given filters. " +
+    "The export is streamed as it is retrieved, and requires an API key with access to bulk exports.",
+  responses: exportResponses,
+});
+
+const coursesExportRoute = createRoute({
+  summary: "Export courses",
+  operationId: "exportCourses",
+  tags: ["Export"],
+  method: "get",
+  path: "/courses",
+  request: { query: coursesExportQuerySchema },
+  description:
+    "Exports every course matching the given filters. " +
+    "The export is streamed as it is retrieved, and requires an API key with access to bulk exports.",
+  responses: exportResponses,
+});
+
+const instructorsExportRoute = createRoute({
+  summary: "Export instructors",
+  operationId: "exportInstructors",
+  tags: ["Export"],
+  method: "get",
+  path: "/instructors",
+  request: { query: instructorsExportQuerySchema },
+  description:
+    "Exports every instructor matching the given filters. " +
+    "The export is streamed as it is retrieved, and requires an API key with access to bulk exports.",
+  responses: exportResponses,
+});
+
+const websocSectionsExportRoute = createRoute({
+  summary: "Export WebSoc sections",
+  operationId: "exportWebsocSections",
+  tags: ["Export"],
+  method: "get",
+  path: "/websocSections",
+  request: { query: websocSectionsExportQuerySchema },
+  description:
+    "Exports every section in a term matching the given filters, one row per section. " +
+    "The export is streamed as it is retrieved, and requires an API key with access to bulk exports.",
+  responses: exportResponses,
+});
+
+const enrollmentHistoryExportRoute = createRoute({
+  summary: "Export enrollment history",
+  operationId: "exportEnrollmentHistory",
+  tags: ["Export"],
+  method: "get",
+  path: "/enrollmentHistory",
+  request: { query: enrollmentHistoryExportQuerySchema },
+  description:
+    "Exports the enrollment history of every section matching the given filters, one row per snapshot. " +
+    "Counts which were not recorded in a snapshot are null in NDJSON and empty in CSV. " +
+    "The export is streamed as it is retrieved, and requires an API key with access to bulk exports.",
+  responses: exportResponses,
+});
+
+/**
+ * Streams the given pages of a dataset as a file in the given format.
+ */
+const exportResponse = (
+  c: Context,
+  dataset: string,
+  pages: AsyncIterable<Record<string, unknown>[]>,
+  format: "csv" | "ndjson",
+) =>
+  // streamed responses are not typed by Hono, but their bodies are described by `exportResponseSchema`
+  c.body(toExportStream(pages, format), 200, {
+    "Content-Type":
+      format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${dataset}.${format}"`,
+  }) as Response & TypedResponse<string, 200, "text">;
+
+exportRouter.use("*", accessController("BULK_EXPORT"));
+
+exportRouter.openapi(gradesExportRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ExportService(database(c.env.DB.connectionString));
+  return exportResponse(c, "grades", service.exportGrades(query), query.format);
+});
+
+exportRouter.openapi(coursesExportRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ExportService(database(c.env.DB.connectionString));
+  return exportResponse(c, "courses", service.exportCourses(query), query.format);
+});
+
+exportRouter.openapi(instructorsExportRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ExportService(database(c.env.DB.connectionString));
+  return exportResponse(c, "instructors", service.exportInstructors(query), query.format);
+});
+
+exportRouter.openapi(websocSectionsExportRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ExportService(database(c.env.DB.connectionString));
+  return exportResponse(c, "websocSections", service.exportWebsocSections(query), query.format);
+});
+
+exportRouter.openapi(enrollmentHistoryExportRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ExportService(database(c.env.DB.connectionString));
+  return exportResponse(
+    c,
+    "enrollmentHistory",
+    service.exportEnrollmentHistory(query),
+    query.format,
+  );
+});
+
+export { exportRouter };
@@ -1,13 +1,19 @@
 import { defaultHook } from "$hooks";
-import { productionCache } from "$middleware";
+import { csvNegotiator, productionCache } from "$middleware";
 import {
   aggregateGradeByCourseSchema,
   aggregateGradeByOfferingSchema,
   aggregateGradesSchema,
+  csvResponseSchema,
+  cursorResponseSchema,
   errorSchema,
+  gradesForecastQuerySchema,
+  gradesForecastSchema,
   gradesOptionsSchema,
   gradesQuerySchema,
   rawGradeSchema,
+  rawGradesByCursorQuerySchema,
+  responseFormatQuerySchema,
   responseSchema,
 } from "$schema";
 import { GradesService } from "$services";
@@ -15,6 +21,7 @@ import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
 import { database } from "@packages/db";
 
 const gradesRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
+const gradesCursorRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
 
 const rawGradesRoute = createRoute({
   summary: "Filter grades",
@@ -22,12 +29,41 @@ const rawGradesRoute = createRoute({
   tags: ["Grades"],
   method: "get",
   path: "/raw",
-  request: { query: gradesQuerySchema },
+  request: { query: gradesQuerySchema.merge(responseFormatQuerySchema) },
   description: "Retrieves raw grades data for the given parameters.",
   responses: {
     200: {
       content: {
         "application/json": { schema: responseSchema(rawGradeSchema.array()) },
+        "text/csv": { schema: csvResponseSchema },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const rawGradesByCursorRoute = createRoute({
+  summary: "Filter grades with cursor pagination",
+  operationId: "rawGradesByCursor",
+  tags: ["Grades"],
+  method: "get",
+  path: "/raw",
+  request: { query: rawGradesByCursorQuerySchema },
+  description:
+    "Retrieves raw grades data for the given parameters with cursor-based pagination, " +
+    "in order of year, quarter, and section code.",
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: cursorResponseSchema(rawGradeSchema.array()) },
       },
       description: "Successful operation",
     },
@@ -101,7 +137,7 @@ const aggregateGradesByCourseRoute = createRoute({
   tags: ["Grades"],
   method: "get",
   path: "/aggregateByCourse",
-  request: { query: gradesQuerySchema },
+  request: { query: gradesQuerySchema.merge(responseFormatQuerySchema) },
   description:
     "Retrieves grades aggregated by course and the set of courses that are included in this aggregation.",
   responses: {
@@ -110,6 +146,7 @@ const aggregateGradesByCourseRoute = createRoute({
         "application/json": {
           schema: responseSchema(aggregateGradeByCourseSchema.array()),
         },
+        "text/csv": { schema: csvResponseSchema },
       },
       description: "Successful operation",
     },
@@ -130,7 +167,7 @@ const aggregateGradesByOfferingRoute = createRoute({
   tags: ["Grades"],
   method: "get",
   path: "/aggregateByOffering",
-  request: { query: gradesQuerySchema },
+  request: { query: gradesQuerySchema.merge(responseFormatQuerySchema) },
   description:
     "Retrieves grades aggregated by offering, which is a course and the instructor who taught it, and the set of courses that are included in this aggregation.",
   responses: {
@@ -139,9 +176,41 @@ const aggregateGradesByOfferingRoute = createRoute({
         "application/json": {
           schema: responseSchema(aggregateGradeByOfferingSchema.array()),
         },
+        "text/csv": { schema: csvResponseSchema },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const gradesForecastRoute = createRoute({
+  summary: "Retrieve grade forecast for section",
+  operationId: "gradesForecast",
+  tags: ["Grades"],
+  method: "get",
+  path: "/forecast",
+  request: { query: gradesForecastQuerySchema },
+  description:
+    "Retrieves historical grades relevant to the given section: for the same course taught by the same instructor(s), for the same course overall, and for the same instructor(s) across all courses.",
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(gradesForecastSchema) },
       },
       description: "Successful operation",
     },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Section not found",
+    },
     422: {
       content: { "application/json": { schema: errorSchema } },
       description: "Parameters failed validation",
@@ -153,9 +222,13 @@ const aggregateGradesByOfferingRoute = createRoute({
   },
 });
 
+gradesRouter.use("/raw", csvNegotiator);
+gradesRouter.use("/aggregateByCourse", csvNegotiator);
+gradesRouter.use("/aggregateByOffering", csvNegotiator);
+
 gradesRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
+  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }, "grades"),
 );
 
 gradesRouter.openapi(rawGradesRoute, async (c) => {
@@ -222,4 +295,36 @@ gradesRouter.openapi(aggregateGradesByOfferingRoute, async (c) => {
   );
 });
 
-export { gradesRouter };
+gradesRouter.openapi(gradesForecastRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new GradesService(database(c.env.DB.connectionString));
+  const res = await service.getGradesForecast(query);
+  return res
+    ? c.json({ ok: true, data: gradesForecastSchema.parse(res) }, 200)
+    : c.json(
+        {
+          ok: false,
+          message: `Section ${query.sectionCode} not found in ${query.year} ${query.quarter}`,
+        },
+        404,
+      );
+});
+
+gradesCursorRouter.openapi(rawGradesByCursorRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new GradesService(database(c.env.DB.connectionString));
+
+  const { items, nextCursor } = await service.getRawGradesByCursor(query);
+  return c.json(
+    {
+      ok: true,
+      data: {
+        items: rawGradeSchema.array().parse(items),
+        nextCursor: nextCursor,
+      },
+    },
+    200,
+  );
+});
+
+export { gradesRouter, gradesCursorRouter };
@@ -135,7 +135,10 @@ const instructorsByCursorRoute = createRoute({
 
 instructorsRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
+  productionCache(
+    { cacheName: "anteater-api", cacheControl: "max-age=86400" },
+    "materializedViews",
+  ),
 );
 
 instructorsRouter.openapi(batchInstructorsRoute, async (c) => {
@@ -1,12 +1,24 @@
 import { defaultHook } from "$hooks";
-import { productionCache } from "$middleware";
-import { errorSchema, responseSchema } from "$schema";
-import { larcQuerySchema, larcResponseSchema } from "$schema";
+import { csvNegotiator, productionCache } from "$middleware";
+import {
+  csvResponseSchema,
+  cursorResponseSchema,
+  errorSchema,
+  responseFormatQuerySchema,
+  responseSchema,
+} from "$schema";
+import {
+  larcByCursorQuerySchema,
+  larcQuerySchema,
+  larcResponseSchema,
+  websocCourseLarcSchema,
+} from "$schema";
 import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
 import { database } from "@packages/db";
 import { LarcService } from "../../services/larc.ts";
 
 const larcRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
+const larcCursorRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
 
 const larcSectionsRoute = createRoute({
   summary: "Query LARC sections",
@@ -15,13 +27,14 @@ const larcSectionsRoute = createRoute({
   method: "get",
   path: "/",
   description: "Retrieves LARC sections data matching the given filters.",
-  request: { query: larcQuerySchema },
+  request: { query: larcQuerySchema.merge(responseFormatQuerySchema) },
   responses: {
     200: {
       content: {
         "application/json": {
           schema: responseSchema(larcResponseSchema),
         },
+        "text/csv": { schema: csvResponseSchema },
       },
       description: "Successful operation",
     },
@@ -36,7 +49,42 @@ const larcSectionsRoute = createRoute({
   },
 });
 
-larcRouter.get("*", productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }));
+const larcSectionsByCursorRoute = createRoute({
+  summary: "Query LARC sections with cursor pagination",
+  operationId: "larcByCursor",
+  tags: ["LARC"],
+  method: "get",
+  path: "/",
+  description:
+    "Retrieves LARC sections data matching the given filters with cursor-based pagination. " +
+    "A course may span more than one page.",
+  request: { query: larcByCursorQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "application/json": {
+          schema: cursorResponseSchema(websocCourseLarcSchema.array()),
+        },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+larcRouter.use("/", csvNegotiator);
+
+larcRouter.get(
+  "*",
+  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }, "larc"),
+);
 
 larcRouter.openapi(larcSectionsRoute, async (c) => {
   const query = c.req.valid("query");
@@ -50,4 +98,21 @@ larcRouter.openapi(larcSectionsRoute, async (c) => {
   );
 });
 
-export { larcRouter };
+larcCursorRouter.openapi(larcSectionsByCursorRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new LarcService(database(c.env.DB.connectionString));
+
+  const { items, nextCursor } = await service.getLarcSectionsByCursor(query);
+  return c.json(
+    {
+      ok: true,
+      data: {
+        items: websocCourseLarcSchema.array().parse(items),
+        nextCursor: nextCursor,
+      },
+    },
+    200,
+  );
+});
+
+export { larcRouter, larcCursorRouter };
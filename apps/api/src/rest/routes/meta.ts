@@ -0,0 +1,37 @@
+import { defaultHook } from "$hooks";
+import { errorSchema, freshnessSchema, responseSchema } from "$schema";
+import { MetaService } from "$services";
+import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
+import { database } from "@packages/db";
+
+const metaRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
+
+const freshnessRoute = createRoute({
+  summary: "Retrieve data freshness",
+  operationId: "freshness",
+  tags: ["Other"],
+  method: "get",
+  path: "/freshness",
+  description:
+    "Retrieves when the data in each domain was last updated successfully by our data pipelines, " +
+    "as well as when WebSoc data was last updated for each term. " +
+    "Responses derived from the data in a domain also include when it was last updated in the " +
+    "`X-Data-Updated-At` header. This endpoint is never cached.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(freshnessSchema) } },
+      description: "Successful operation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+metaRouter.openapi(freshnessRoute, async (c) => {
+  const service = new MetaService(database(c.env.DB.connectionString));
+  return c.json({ ok: true, data: freshnessSchema.parse(await service.getFreshness()) }, 200);
+});
+
+export { metaRouter };
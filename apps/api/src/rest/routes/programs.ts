@@ -10,7 +10,12 @@ import {
   minorRequirementsResponseSchema,
   minorsQuerySchema,
   minorsResponseSchema,
+  programAuditBodySchema,
+  programAuditRequirementSchema,
+  programAuditResponseSchema,
   programRequirementSchema,
+  programsByCourseQuerySchema,
+  programsByCourseResponseSchema,
   responseSchema,
   specializationRequirementsQuerySchema,
   specializationRequirementsResponseSchema,
@@ -26,6 +31,7 @@ import { database } from "@packages/db";
 const programsRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
 
 programsRouter.openAPIRegistry.register("programRequirement", programRequirementSchema);
+programsRouter.openAPIRegistry.register("programAuditRequirement", programAuditRequirementSchema);
 
 const majorsRoute = createRoute({
   summary: "Retrieve majors",
@@ -227,9 +233,72 @@ const ugradRequirements = createRoute({
   },
 });
 
+const programsByCourse = createRoute({
+  summary: "Retrieve programs by course",
+  operationId: "getProgramsByCourse",
+  tags: ["Programs"],
+  method: "get",
+  path: "/byCourse",
+  description:
+    "List all majors, minors, specializations, and undergraduate requirements blocks with a requirement that the given course counts toward.",
+  request: { query: programsByCourseQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(programsByCourseResponseSchema) },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const programAudit = createRoute({
+  summary: "Audit program requirements",
+  operationId: "programAudit",
+  tags: ["Programs"],
+  method: "post",
+  path: "/audit",
+  description:
+    "Evaluates the requirements of a major, minor, or specialization against a list of completed courses. For undergraduate majors, school requirements and UC/GE requirements are also evaluated.",
+  request: {
+    body: { content: { "application/json": { schema: programAuditBodySchema } } },
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(programAuditResponseSchema) },
+      },
+      description: "Successful operation",
+    },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Program not found",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
 programsRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
+  productionCache(
+    { cacheName: "anteater-api", cacheControl: "max-age=86400" },
+    "materializedViews",
+  ),
 );
 
 programsRouter.openapi(majorsRoute, async (c) => {
@@ -322,4 +391,26 @@ programsRouter.openapi(ugradRequirements, async (c) => {
       );
 });
 
+programsRouter.openapi(programsByCourse, async (c) => {
+  const query = c.req.valid("query");
+  const service = new ProgramsService(database(c.env.DB.connectionString));
+  const res = await service.getProgramsByCourse(query);
+  return c.json({ ok: true, data: programsByCourseResponseSchema.parse(res) }, 200);
+});
+
+programsRouter.openapi(programAudit, async (c) => {
+  const body = c.req.valid("json");
+  const service = new ProgramsService(database(c.env.DB.connectionString));
+  const res = await service.getProgramAudit(body);
+  return res
+    ? c.json({ ok: true, data: programAuditResponseSchema.parse(res) }, 200)
+    : c.json(
+        {
+          ok: false,
+          message: `Couldn't find this ${body.programType}; check your ID?`,
+        },
+        404,
+      );
+});
+
 export { programsRouter };
@@ -35,7 +35,10 @@ const searchRoute = createRoute({
 searchRouter.use("*", accessController("FUZZY_SEARCH"));
 searchRouter.get(
   "*",
-  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=86400" }),
+  productionCache(
+    { cacheName: "anteater-api", cacheControl: "max-age=86400" },
+    "materializedViews",
+  ),
 );
 
 searchRouter.openapi(searchRoute, async (c) => {
@@ -1,6 +1,9 @@
 import { defaultHook } from "$hooks";
+import { csvNegotiator, productionCache } from "$middleware";
 import {
+  csvResponseSchema,
   errorSchema,
+  responseFormatQuerySchema,
   responseSchema,
   studyRoomSchema,
   studyRoomsPathSchema,
@@ -18,11 +21,14 @@ const studyRoomByIdRoute = createRoute({
   tags: ["Study Rooms"],
   method: "get",
   path: "/{id}",
-  request: { params: studyRoomsPathSchema },
+  request: { params: studyRoomsPathSchema, query: responseFormatQuerySchema },
   description: "Retrieves a study room by its ID.",
   responses: {
     200: {
-      content: { "application/json": { schema: responseSchema(studyRoomSchema) } },
+      content: {
+        "application/json": { schema: responseSchema(studyRoomSchema) },
+        "text/csv": { schema: csvResponseSchema },
+      },
       description: "Successful operation",
     },
     404: {
@@ -46,13 +52,14 @@ const studyRoomsByFiltersRoute = createRoute({
   tags: ["Study Rooms"],
   method: "get",
   path: "/",
-  request: { query: studyRoomsQuerySchema },
+  request: { query: studyRoomsQuerySchema.merge(responseFormatQuerySchema) },
   description:
     "Retrieves study rooms matching the given filters. If no filters are provided, all rooms are returned.",
   responses: {
     200: {
       content: {
         "application/json": { schema: responseSchema(studyRoomSchema.array()) },
+        "text/csv": { schema: csvResponseSchema },
       },
       description: "Successful operation",
     },
@@ -63,7 +70,13 @@ const studyRoomsByFiltersRoute = createRoute({
   },
 });
 
-// studyRoomsRouter.get("*");
+studyRoomsRouter.use("/", csvNegotiator);
+studyRoomsRouter.use("/:id", csvNegotiator);
+
+studyRoomsRouter.get(
+  "*",
+  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }, "studyLocations"),
+);
 
 studyRoomsRouter.openapi(studyRoomByIdRoute, async (c) => {
   const { id } = c.req.valid("param");
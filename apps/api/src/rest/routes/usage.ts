@@ -0,0 +1,67 @@
+import { defaultHook } from "$hooks";
+import { errorSchema, responseSchema, usageQuerySchema, usageSchema } from "$schema";
+import { UsageService } from "$services";
+import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
+import { database } from "@packages/db";
+import type { RateLimitInfo } from "hono-rate-limiter";
+
+const usageRouter = new OpenAPIHono<{
+  Bindings: Env;
+  Variables: { rateLimit?: RateLimitInfo };
+}>({ defaultHook });
+
+const usageRoute = createRoute({
+  summary: "Retrieve API key usage",
+  operationId: "usage",
+  tags: ["Other"],
+  method: "get",
+  path: "/",
+  request: { query: usageQuerySchema },
+  description:
+    "Retrieves the number of requests made with the API key used to make this request, by route and day, " +
+    "as well as its current rate limit status and when it was last used. This endpoint is never cached.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(usageSchema) } },
+      description: "Successful operation",
+    },
+    401: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "API key not provided",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+usageRouter.openapi(usageRoute, async (c) => {
+  const query = c.req.valid("query");
+  const header = c.req.header("authorization");
+  if (!header) {
+    return c.json({ ok: false, message: "An API key is required to access this resource" }, 401);
+  }
+  const [_, key] = header.split(" ", 2);
+  const service = new UsageService(database(c.env.DB.connectionString));
+  const rateLimit = c.get("rateLimit");
+  return c.json(
+    {
+      ok: true,
+      data: usageSchema.parse({
+        limit: rateLimit?.limit ?? 0,
+        remaining: rateLimit?.remaining ?? 0,
+        resetAt: rateLimit?.resetTime?.toISOString() ?? null,
+        lastUsedAt: (await service.getLastUsedAt(key, c.req.routePath))?.toISOString() ?? null,
+        usage: await service.getUsage(key, query),
+      }),
+    },
+    200,
+  );
+});
+
+export { usageRouter };
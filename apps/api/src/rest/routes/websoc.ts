@@ -1,10 +1,19 @@
 import { defaultHook } from "$hooks";
 import { productionCache } from "$middleware";
 import {
+  cursorResponseSchema,
   errorSchema,
   responseSchema,
+  websocByCursorQuerySchema,
+  websocCalendarQuerySchema,
+  websocCalendarResponseSchema,
+  websocConflictsQuerySchema,
+  websocConflictsResponseSchema,
   websocQuerySchema,
   websocResponseSchema,
+  websocSchedulesQuerySchema,
+  websocSchedulesResponseSchema,
+  websocSchoolSchema,
   websocTermResponseSchema,
 } from "$schema";
 import { WebsocService } from "$services";
@@ -12,6 +21,7 @@ import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
 import { database } from "@packages/db";
 
 const websocRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
+const websocCursorRouter = new OpenAPIHono<{ Bindings: Env }>({ defaultHook });
 
 const websocRoute = createRoute({
   summary: "Query WebSoc",
@@ -39,6 +49,34 @@ const websocRoute = createRoute({
   },
 });
 
+const websocByCursorRoute = createRoute({
+  summary: "Query WebSoc with cursor pagination",
+  operationId: "websocByCursor",
+  tags: ["WebSoc"],
+  method: "get",
+  path: "/",
+  description:
+    "Retrieves WebSoc data satisfying the given parameters with cursor-based pagination. " +
+    "Sections are paginated in order of section code, so a course may span more than one page.",
+  request: { query: websocByCursorQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: cursorResponseSchema(websocSchoolSchema.array()) },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
 const websocTermsRoute = createRoute({
   summary: "List available WebSoc terms",
   operationId: "websocTerms",
@@ -66,7 +104,98 @@ const websocTermsRoute = createRoute({
   },
 });
 
-websocRouter.get("*", productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }));
+const websocConflictsRoute = createRoute({
+  summary: "Check WebSoc sections for conflicts",
+  operationId: "websocConflicts",
+  tags: ["WebSoc"],
+  method: "get",
+  path: "/conflicts",
+  description:
+    "Retrieves every pair of overlapping meetings and final exams among the given sections in a term. " +
+    "Meetings and final exams whose times are TBA cannot be checked, and are reported separately.",
+  request: { query: websocConflictsQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(websocConflictsResponseSchema) },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const websocSchedulesRoute = createRoute({
+  summary: "Generate WebSoc schedules",
+  operationId: "websocSchedules",
+  tags: ["WebSoc"],
+  method: "get",
+  path: "/schedules",
+  description:
+    "Enumerates schedules without meeting conflicts that consist of one section of each type (e.g. one lecture and one discussion) " +
+    "offered by each of the given courses in a term, subject to the given constraints.",
+  request: { query: websocSchedulesQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: responseSchema(websocSchedulesResponseSchema) },
+      },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const websocCalendarRoute = createRoute({
+  summary: "Export WebSoc sections as iCalendar",
+  operationId: "websocCalendar",
+  tags: ["WebSoc"],
+  method: "get",
+  path: "/ics",
+  description:
+    "Exports the meetings and final exams of the given sections in a term as an iCalendar file. " +
+    "Meetings recur weekly from the start to the end of instruction; sections whose meeting times are TBA are omitted.",
+  request: { query: websocCalendarQuerySchema },
+  responses: {
+    200: {
+      content: {
+        "text/calendar": { schema: websocCalendarResponseSchema },
+      },
+      description: "Successful operation",
+    },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Term not found",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+websocRouter.get(
+  "*",
+  productionCache({ cacheName: "anteater-api", cacheControl: "max-age=300" }, "websoc"),
+);
 
 websocRouter.openapi(websocRoute, async (c) => {
   const query = c.req.valid("query");
@@ -85,4 +214,57 @@ websocRouter.openapi(websocTermsRoute, async (c) => {
   return c.json({ ok: true, data: await service.getAllTerms() }, 200);
 });
 
-export { websocRouter };
+websocRouter.openapi(websocConflictsRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WebsocService(database(c.env.DB.connectionString));
+  return c.json(
+    {
+      ok: true,
+      data: websocConflictsResponseSchema.parse(await service.getSectionConflicts(query)),
+    },
+    200,
+  );
+});
+
+websocRouter.openapi(websocSchedulesRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WebsocService(database(c.env.DB.connectionString));
+  return c.json(
+    {
+      ok: true,
+      data: websocSchedulesResponseSchema.parse(await service.getSchedules(query)),
+    },
+    200,
+  );
+});
+
+websocRouter.openapi(websocCalendarRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WebsocService(database(c.env.DB.connectionString));
+  const res = await service.getSectionsCalendar(query);
+  return res
+    ? c.text(res, 200, {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${query.year}-${query.quarter}.ics"`,
+      })
+    : c.json({ ok: false, message: "Term not found" }, 404);
+});
+
+websocCursorRouter.openapi(websocByCursorRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WebsocService(database(c.env.DB.connectionString));
+
+  const { items, nextCursor } = await service.getWebsocResponseByCursor(query);
+  return c.json(
+    {
+      ok: true,
+      data: {
+        items: websocSchoolSchema.array().parse(items),
+        nextCursor: nextCursor,
+      },
+    },
+    200,
+  );
+});
+
+export { websocRouter, websocCursorRouter };
@@ -1,5 +1,14 @@
 import { defaultHook } from "$hooks";
-import { errorSchema, responseSchema, weekQuerySchema, weekSchema } from "$schema";
+import {
+  calendarQuerySchema,
+  datedWeekSchema,
+  errorSchema,
+  responseSchema,
+  termWeeksSchema,
+  weekBatchQuerySchema,
+  weekQuerySchema,
+  weekSchema,
+} from "$schema";
 import { WeekService } from "$services";
 import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
 import { database } from "@packages/db";
@@ -30,6 +39,59 @@ const weekRoute = createRoute({
   },
 });
 
+const weekBatchRoute = createRoute({
+  summary: "Retrieve weeks of dates",
+  operationId: "weekBatch",
+  tags: ["Calendar"],
+  method: "get",
+  path: "/batch",
+  request: { query: weekBatchQuerySchema },
+  description: "Retrieves week data for each of the provided dates.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(datedWeekSchema.array()) } },
+      description: "Successful operation",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
+const termWeeksRoute = createRoute({
+  summary: "Retrieve weeks of term",
+  operationId: "termWeeks",
+  tags: ["Calendar"],
+  method: "get",
+  path: "/term",
+  request: { query: calendarQuerySchema },
+  description:
+    "Retrieves the date span of every week of instruction and of finals for the provided term.",
+  responses: {
+    200: {
+      content: { "application/json": { schema: responseSchema(termWeeksSchema) } },
+      description: "Successful operation",
+    },
+    404: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Term not found",
+    },
+    422: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Parameters failed validation",
+    },
+    500: {
+      content: { "application/json": { schema: errorSchema } },
+      description: "Server error occurred",
+    },
+  },
+});
+
 weekRouter.openapi(weekRoute, async (c) => {
   const query = c.req.valid("query");
   const service = new WeekService(database(c.env.DB.connectionString));
@@ -45,4 +107,34 @@ weekRouter.openapi(weekRoute, async (c) => {
       );
 });
 
+weekRouter.openapi(weekBatchRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WeekService(database(c.env.DB.connectionString));
+  const res = await service.getWeekDataBatch(query);
+  return res
+    ? c.json({ ok: true, data: datedWeekSchema.array().parse(res) }, 200)
+    : c.json(
+        {
+          ok: false,
+          message: "Something unexpected happened. Please try again later",
+        },
+        500,
+      );
+});
+
+weekRouter.openapi(termWeeksRoute, async (c) => {
+  const query = c.req.valid("query");
+  const service = new WeekService(database(c.env.DB.connectionString));
+  const res = await service.getTermWeeks(query);
+  return res
+    ? c.json({ ok: true, data: termWeeksSchema.parse(res) }, 200)
+    : c.json(
+        {
+          ok: false,
+          message: `Term ${query.year} ${query.quarter} not found`,
+        },
+        404,
+      );
+});
+
 export { weekRouter };
@@ -16,3 +16,19 @@ export const cursorResponseSchema = <T extends z.ZodType>(data: T) =>
       }),
     }),
   });
+
+export const responseFormatQuerySchema = z.object({
+  format: z
+    .enum(["json", "csv"], { invalid_type_error: "Invalid format provided" })
+    .optional()
+    .openapi({
+      description:
+        "Whether to return the data as JSON or as CSV. If absent, CSV is returned if it is preferred in the `Accept` header",
+    }),
+});
+
+export const csvResponseSchema = z.string().openapi({
+  description:
+    "The data that was requested as CSV, with a header row. Nested lists of objects are expanded into one row per " +
+    "object, and lists of values are joined with semicolons in sorted order",
+});
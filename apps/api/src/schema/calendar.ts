@@ -1,5 +1,5 @@
 import { z } from "@hono/zod-openapi";
-import { terms } from "@packages/db/schema";
+import { calendarEventTypes, terms } from "@packages/db/schema";
 import { yearSchema } from "./lib";
 
 export const calendarQuerySchema = z.object({
@@ -21,3 +21,37 @@ export const calendarTermSchema = z.object({
   finalsEnd: z.string().openapi({ example: "2024-12-13" }),
   socAvailable: z.string().openapi({ example: "2024-05-04" }),
 });
+
+export const calendarEventSchema = z.object({
+  type: z.enum(calendarEventTypes).openapi({ example: "Holiday" }),
+  title: z.string().openapi({ example: "Veterans Day holiday" }),
+  startDate: z.string().openapi({ example: "2024-11-11" }),
+  endDate: z.string().openapi({ example: "2024-11-11" }),
+});
+
+export const calendarFeedQuerySchema = z
+  .object({
+    startYear: yearSchema
+      .optional()
+      .openapi({ description: "If provided, only include terms in or after this year" }),
+    endYear: yearSchema
+      .optional()
+      .openapi({ description: "If provided, only include terms in or before this year" }),
+    quarter: z
+      .enum(terms, {
+        message:
+          "Parameter 'quarter' must be one of 'Fall', 'Winter', 'Spring', 'Summer1', 'Summer10wk', or 'Summer2'",
+      })
+      .optional()
+      .openapi({ description: "If provided, only include terms of this quarter", example: "Fall" }),
+  })
+  .refine(
+    ({ startYear, endYear }) =>
+      !startYear || !endYear || Number.parseInt(startYear, 10) <= Number.parseInt(endYear, 10),
+    { message: "Parameter 'startYear' must not be after 'endYear'" },
+  );
+
+export const calendarFeedResponseSchema = z.string().openapi({
+  description: "An RFC 5545 iCalendar file",
+  example: "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n...\r\nEND:VCALENDAR\r\n",
+});
@@ -36,6 +36,24 @@ export const outputGECategories = [
   "GE VIII: International/Global Issues",
 ] as const;
 
+export const courseGrades = [
+  "A+",
+  "A",
+  "A-",
+  "B+",
+  "B",
+  "B-",
+  "C+",
+  "C",
+  "C-",
+  "D+",
+  "D",
+  "D-",
+  "F",
+  "P",
+  "NP",
+] as const;
+
 export const coursesPathSchema = z.object({
   id: z
     .string({ message: "Parameter 'id' is required" })
@@ -187,3 +205,100 @@ export const courseSchema = z.object({
   geText: z.string(),
   terms: z.string().array(),
 });
+
+export const courseEligibilityBodySchema = z.object({
+  completedCourses: z
+    .union([
+      z.string(),
+      z.object({
+        courseId: z.string(),
+        grade: z.enum(courseGrades, { message: "Invalid grade provided" }).optional(),
+      }),
+    ])
+    .array()
+    .default([])
+    .openapi({
+      description:
+        "The courses which the student has completed, optionally with the grade received. If no grade is provided, the course is assumed to satisfy any minimum grade.",
+      example: ["I&CSCI45C", { courseId: "I&CSCI46", grade: "B+" }],
+    }),
+  inProgressCourses: z
+    .string()
+    .array()
+    .default([])
+    .openapi({
+      description:
+        "The courses which the student is currently taking. These satisfy corequisites, and satisfy prerequisites with no minimum grade.",
+      example: ["MATH2B"],
+    }),
+  apExams: z
+    .object({
+      fullName: z.string().openapi({ example: "AP Calculus BC" }),
+      score: z.number().int().min(1).max(5),
+    })
+    .array()
+    .default([])
+    .openapi({
+      description:
+        "The AP Exams which the student has taken. Course credit granted by these exams is treated as a completed course.",
+    }),
+});
+
+export const courseEligibilitySchema = z.object({
+  id: z.string().openapi({ example: "COMPSCI161" }),
+  eligible: z.boolean(),
+  unsatisfiedPrerequisiteTree: prerequisiteTreeSchema.nullable().openapi({
+    description:
+      "The parts of this course's prerequisite tree which are not yet satisfied, or null if the student is eligible",
+  }),
+});
+
+export const prerequisiteGraphQuerySchema = z.object({
+  depth: z.coerce
+    .number()
+    .int()
+    .min(1, "Depth must be at least 1")
+    .max(5, "Depth must be at most 5")
+    .default(2)
+    .openapi({
+      description:
+        "The maximum number of hops to traverse from this course, in each direction (prerequisites and dependencies)",
+    }),
+  completedCourses: z
+    .string()
+    .optional()
+    .transform((xs) => xs?.split(",").map((x) => x.replaceAll(" ", "").toUpperCase()))
+    .openapi({
+      description:
+        "If provided, a comma-separated list of courses which have been completed, used to compute the minimum number of quarters needed to reach this course",
+      example: "MATH2A,I&CSCI31",
+    }),
+});
+
+export const prerequisiteGraphSchema = z.object({
+  nodes: z
+    .object({
+      id: z.string().openapi({ example: "COMPSCI161" }),
+      title: z.string().nullable().openapi({
+        description: "The title of this course, or null if it is not in the catalogue",
+      }),
+      depth: z.number().int().openapi({
+        description:
+          "The number of hops from the requested course; negative for prerequisites and positive for dependencies",
+      }),
+    })
+    .array(),
+  edges: z
+    .object({
+      prerequisiteId: z.string(),
+      dependencyId: z.string(),
+    })
+    .array(),
+  cycles: z.string().array().array().openapi({
+    description: "Cycles in this graph, each given as a list of course IDs",
+  }),
+  minimumQuarters: z.number().int().nonnegative().nullable().openapi({
+    description:
+      "If completed courses were provided, the minimum number of quarters needed to complete this course, assuming every course is offered every quarter; null if not computed or the course cannot be reached through coursework alone",
+  }),
+});
@@ -1,33 +1,57 @@
 import { z } from "@hono/zod-openapi";
 import { terms, websocSectionTypes, websocStatuses } from "@packages/db/schema";
-import { yearSchema } from "./lib";
-
-export const enrollmentHistoryQuerySchema = z
-  .object({
-    year: yearSchema.optional(),
-    quarter: z.enum(terms, { invalid_type_error: "Invalid quarter provided" }).optional(),
-    instructorName: z.string().optional(),
-    department: z.string().optional(),
-    courseNumber: z.string().optional(),
-    sectionCode: z
-      .string()
-      .regex(/^\d{5}$/, { message: "Invalid sectionCode provided" })
-      .transform((x) => Number.parseInt(x, 10))
-      .optional(),
-    sectionType: z
-      .enum(websocSectionTypes, { invalid_type_error: "Invalid sectionType provided" })
-      .optional(),
+import { sectionCursorSchema, yearSchema } from "./lib";
+
+export const enrollmentHistoryFilterSchema = z.object({
+  year: yearSchema.optional(),
+  quarter: z.enum(terms, { invalid_type_error: "Invalid quarter provided" }).optional(),
+  instructorName: z.string().optional(),
+  department: z.string().optional(),
+  courseNumber: z.string().optional(),
+  sectionCode: z
+    .string()
+    .regex(/^\d{5}$/, { message: "Invalid sectionCode provided" })
+    .transform((x) => Number.parseInt(x, 10))
+    .optional(),
+  sectionType: z
+    .enum(websocSectionTypes, { invalid_type_error: "Invalid sectionType provided" })
+    .optional(),
+});
+
+const enrollmentHistoryFilterRefinement = [
+  (x: z.infer<typeof enrollmentHistoryFilterSchema>) =>
+    (x.department && x.courseNumber) ||
+    (x.sectionCode && x.year && x.quarter) ||
+    (x.instructorName && x.courseNumber && x.year && x.quarter),
+  {
+    message:
+      "Must provide department and course number; section code and year/quarter; or instructor name, course number, and year/quarter",
+  },
+] as const;
+
+const enrollmentHistoryFormatSchema = z
+  .enum(["arrays", "timeseries"], { invalid_type_error: "Invalid format provided" })
+  .optional()
+  .openapi({
+    description:
+      "Whether to return enrollment history as parallel arrays of strings (the default), or as an array of typed snapshots",
+  });
+
+export const enrollmentHistoryQuerySchema = enrollmentHistoryFilterSchema
+  .extend({ format: enrollmentHistoryFormatSchema })
+  .refine(...enrollmentHistoryFilterRefinement);
+
+export const enrollmentHistoryByCursorQuerySchema = enrollmentHistoryFilterSchema
+  .extend({
+    format: enrollmentHistoryFormatSchema,
+    cursor: sectionCursorSchema.optional(),
+    take: z.coerce.number().lte(100, "Page size must be less than or equal to 100").default(100),
   })
-  .refine(
-    (x) =>
-      (x.department && x.courseNumber) ||
-      (x.sectionCode && x.year && x.quarter) ||
-      (x.instructorName && x.courseNumber && x.year && x.quarter),
-    {
-      message:
-        "Must provide department and course number; section code and year/quarter; or instructor name, course number, and year/quarter",
-    },
-  );
+  .refine(...enrollmentHistoryFilterRefinement);
+
+export const enrollmentHistoryAnalyticsQuerySchema = enrollmentHistoryFilterSchema.refine(
+  ...enrollmentHistoryFilterRefinement,
+);
 
 export const enrollmentHistorySchema = z.object({
   year: z.string(),
@@ -50,3 +74,63 @@ export const enrollmentHistorySchema = z.object({
   newOnlyReservedHistory: z.string().array(),
   statusHistory: z.union([z.literal(""), z.enum(websocStatuses)]).array(),
 });
+
+export const enrollmentSnapshotSchema = z.object({
+  date: z.string(),
+  maxCapacity: z.number().int(),
+  totalEnrolled: z.number().int().nullable(),
+  waitlist: z.number().int().nullable(),
+  waitlistCap: z.number().int().nullable(),
+  requested: z.number().int().nullable(),
+  newOnlyReserved: z.number().int().nullable(),
+  status: z.enum(websocStatuses).nullable(),
+});
+
+export const enrollmentHistoryTimeseriesSchema = enrollmentHistorySchema
+  .omit({
+    dates: true,
+    maxCapacityHistory: true,
+    totalEnrolledHistory: true,
+    waitlistHistory: true,
+    waitlistCapHistory: true,
+    requestedHistory: true,
+    newOnlyReservedHistory: true,
+    statusHistory: true,
+  })
+  .extend({ history: enrollmentSnapshotSchema.array() });
+
+export const enrollmentAnalyticsSchema = z.object({
+  enrollmentDeltas: z
+    .object({
+      date: z.string(),
+      totalEnrolledDelta: z.number().int().nullable(),
+      waitlistDelta: z.number().int().nullable(),
+    })
+    .array()
+    .openapi({
+      description:
+        "The change in enrollment and waitlist counts on each recorded date, relative to the previous recorded date",
+    }),
+  firstFullDate: z.string().nullable().openapi({
+    description: "The first recorded date on which this section was FULL or Waitl",
+  }),
+  projectedFillDate: z.string().nullable().openapi({
+    description:
+      "For sections which are currently OPEN, the date on which this section is projected to fill, based on when the same section filled in prior years",
+  }),
+  priorOfferingCount: z.number().int().nonnegative().openapi({
+    description: "The number of prior offerings of this section on which the projection is based",
+  }),
+});
+
+export const enrollmentHistoryAnalyticsSchema = enrollmentHistorySchema
+  .pick({
+    year: true,
+    quarter: true,
+    sectionCode: true,
+    department: true,
+    courseNumber: true,
+    sectionType: true,
+    sectionNum: true,
+  })
+  .extend({ analytics: enrollmentAnalyticsSchema });
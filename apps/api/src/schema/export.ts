@@ -0,0 +1,37 @@
+import { z } from "@hono/zod-openapi";
+import { coursesByCursorQuerySchema } from "./courses";
+import { enrollmentHistoryFilterSchema } from "./enrollment-history";
+import { gradesQuerySchema } from "./grades";
+import { instructorsByCursorQuerySchema } from "./instructors";
+import { websocByCursorQuerySchema } from "./websoc";
+
+const exportFormatSchema = z
+  .enum(["csv", "ndjson"], { invalid_type_error: "Invalid format provided" })
+  .default("ndjson")
+  .openapi({
+    description:
+      "Whether to export the dataset as CSV, with nested values encoded as JSON, or as newline-delimited JSON (the default)",
+  });
+
+export const gradesExportQuerySchema = gradesQuerySchema.extend({ format: exportFormatSchema });
+
+export const coursesExportQuerySchema = coursesByCursorQuerySchema
+  .omit({ cursor: true, take: true })
+  .extend({ format: exportFormatSchema });
+
+export const instructorsExportQuerySchema = instructorsByCursorQuerySchema
+  .omit({ cursor: true, take: true })
+  .extend({ format: exportFormatSchema });
+
+export const websocSectionsExportQuerySchema = websocByCursorQuerySchema
+  .omit({ cursor: true, take: true })
+  .extend({ format: exportFormatSchema });
+
+export const enrollmentHistoryExportQuerySchema = enrollmentHistoryFilterSchema.extend({
+  format: exportFormatSchema,
+});
+
+export const exportResponseSchema = z.string().openapi({
+  description:
+    "The rows of the dataset, either as CSV with a header row, or as one JSON object per line",
+});
@@ -1,6 +1,6 @@
 import { z } from "@hono/zod-openapi";
 import { courseLevels, terms } from "@packages/db/schema";
-import { geCategories, yearSchema } from "./lib";
+import { geCategories, sectionCursorSchema, yearSchema } from "./lib";
 
 export const gradesQuerySchema = z.object({
   year: yearSchema.optional(),
@@ -28,6 +28,11 @@ export const gradesQuerySchema = z.object({
     .transform((x) => x === "true"),
 });
 
+export const rawGradesByCursorQuerySchema = gradesQuerySchema.extend({
+  cursor: sectionCursorSchema.optional(),
+  take: z.coerce.number().lte(100, "Page size must be less than or equal to 100").default(100),
+});
+
 export const rawGradeSchema = z.object({
   year: z.string(),
   quarter: z.enum(terms),
@@ -109,3 +114,45 @@ export const aggregateGradeByOfferingSchema = z.object({
   gradeWCount: z.number(),
   averageGPA: z.number().nullable(),
 });
+
+export const gradesForecastQuerySchema = z.object({
+  year: yearSchema,
+  quarter: z.enum(terms, { invalid_type_error: "Invalid quarter provided" }),
+  sectionCode: z.string().regex(/^\d{5}$/, { message: "Invalid sectionCode provided" }),
+});
+
+export const gradesForecastDistributionSchema = z.object({
+  sectionCount: z.number().int().nonnegative().openapi({
+    description: "The number of sections which contributed to this distribution",
+  }),
+  gradeACount: z.number(),
+  gradeBCount: z.number(),
+  gradeCCount: z.number(),
+  gradeDCount: z.number(),
+  gradeFCount: z.number(),
+  gradePCount: z.number(),
+  gradeNPCount: z.number(),
+  gradeWCount: z.number(),
+  averageGPA: z.number().nullable(),
+});
+
+export const gradesForecastSchema = z.object({
+  section: z.object({
+    year: z.string(),
+    quarter: z.enum(terms),
+    sectionCode: z.string(),
+    department: z.string(),
+    courseNumber: z.string(),
+    instructors: z.string().array(),
+  }),
+  offering: gradesForecastDistributionSchema.openapi({
+    description:
+      "Historical grades for this course when taught by any of this section's instructors",
+  }),
+  course: gradesForecastDistributionSchema.openapi({
+    description: "Historical grades for this course across all instructors",
+  }),
+  instructors: gradesForecastDistributionSchema.openapi({
+    description: "Historical grades for this section's instructors across all courses",
+  }),
+});
@@ -3,12 +3,15 @@ export * from "./base";
 export * from "./calendar";
 export * from "./courses";
 export * from "./enrollment-history";
+export * from "./export";
 export * from "./grades";
 export * from "./instructors";
 export * from "./larc";
+export * from "./meta";
 export * from "./programs";
 export * from "./search";
 export * from "./study-rooms";
+export * from "./usage";
 export * from "./websoc";
 export * from "./week";
-export { geCategories } from "./lib";
+export { geCategories, sectionCursorSchema } from "./lib";
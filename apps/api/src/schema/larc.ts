@@ -1,6 +1,12 @@
 import { z } from "@hono/zod-openapi";
 import { terms } from "@packages/db/schema";
-import { courseNumberSchema, daysSchema, timeSchema, yearSchema } from "./lib";
+import {
+  courseNumberSchema,
+  daysSchema,
+  larcSectionCursorSchema,
+  timeSchema,
+  yearSchema,
+} from "./lib";
 
 export const larcQuerySchema = z.object({
   instructorName: z
@@ -32,6 +38,11 @@ export const larcQuerySchema = z.object({
   endTime: timeSchema.optional(),
 });
 
+export const larcByCursorQuerySchema = larcQuerySchema.extend({
+  cursor: larcSectionCursorSchema.optional(),
+  take: z.coerce.number().lte(100, "Page size must be less than or equal to 100").default(100),
+});
+
 const hourMinuteSchema = z.object({
   hour: z.number().openapi({ example: 11 }),
   minute: z.number().openapi({ example: 50 }),
@@ -49,7 +60,7 @@ export const larcSectionSchema = z.object({
   instructors: z.array(z.string().openapi({ example: "Peter Anteater" })),
 });
 
-const websocCourseLarcSchema = z.object({
+export const websocCourseLarcSchema = z.object({
   deptCode: z.string().openapi({ example: "I&C SCI" }),
   courseTitle: z.string().openapi({ example: "DATA STRC IMPL&ANLS" }),
   courseNumber: z.string().openapi({ example: "46" }),
@@ -0,0 +1,70 @@
+import { z } from "@hono/zod-openapi";
+import { type Term, terms } from "@packages/db/schema";
+
+const sectionCursorPattern = new RegExp(`^(\\d{4})-(${terms.join("|")})-(\\d{5})$`);
+
+/**
+ * Expects a cursor of the form `year-quarter-sectionCode`, as returned by routes which paginate WebSoc sections,
+ * and transforms it into the ordering key of the first section of the page it points to.
+ */
+export const sectionCursorSchema = z
+  .string()
+  .transform((cursor, ctx) => {
+    const match = cursor.match(sectionCursorPattern);
+    if (!match) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Parameter 'cursor' is not a valid cursor",
+      });
+      return z.NEVER;
+    }
+    return {
+      year: match[1],
+      quarter: match[2] as Term,
+      sectionCode: Number.parseInt(match[3], 10),
+    };
+  })
+  .openapi({
+    description:
+      "Pagination cursor. Use the `nextCursor` value from the previous response to fetch the next page",
+    example: "2024-Fall-34250",
+  });
+
+const larcSectionCursorKeySchema = z.tuple([
+  z.string(),
+  z.enum(terms),
+  z.string(),
+  z.string(),
+  z.string().datetime(),
+  z.string(),
+  z.string(),
+  z.string(),
+]);
+
+/**
+ * Expects a cursor as returned by routes which paginate LARC sections, and transforms it into the ordering key of
+ * the first section of the page it points to. The key is not meaningful to clients, so it is encoded as base64url.
+ */
+export const larcSectionCursorSchema = z
+  .string()
+  .transform((cursor, ctx) => {
+    try {
+      const bytes = Uint8Array.from(
+        atob(cursor.replaceAll("-", "+").replaceAll("_", "/")),
+        (char) => char.charCodeAt(0),
+      );
+      const [year, quarter, deptCode, courseNumber, startTime, daysString, instructor, building] =
+        larcSectionCursorKeySchema.parse(JSON.parse(new TextDecoder().decode(bytes)));
+      return { year, quarter, deptCode, courseNumber, startTime, daysString, instructor, building };
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Parameter 'cursor' is not a valid cursor",
+      });
+      return z.NEVER;
+    }
+  })
+  .openapi({
+    description:
+      "Pagination cursor. Use the `nextCursor` value from the previous response to fetch the next page",
+  });
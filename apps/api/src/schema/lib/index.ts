@@ -2,3 +2,4 @@ export * from "./time.ts";
 export * from "./day.ts";
 export * from "./course.ts";
 export * from "./year.ts";
+export * from "./cursor.ts";
@@ -0,0 +1,37 @@
+import { z } from "@hono/zod-openapi";
+import { dataDomains, terms } from "@packages/db/schema";
+
+export const pipelineFreshnessSchema = z.object({
+  domain: z.enum(dataDomains).openapi({
+    description: "The domain of the data updated by the pipeline(s)",
+    example: "websoc",
+  }),
+  version: z.number().int().openapi({
+    description: "The version of the data in this domain, which increases whenever it is updated",
+    example: 1234,
+  }),
+  updatedAt: z.string().openapi({
+    description: "When the data in this domain was last updated successfully",
+    example: "2024-09-30T17:42:13.000Z",
+  }),
+});
+
+export const termFreshnessSchema = z.object({
+  year: z.string().openapi({ example: "2024" }),
+  quarter: z.enum(terms).openapi({ example: "Fall" }),
+  lastScraped: z.string().openapi({
+    description: "When WebSoc data for this term was last updated",
+    example: "2024-09-30T17:42:13.000Z",
+  }),
+  complete: z.boolean().openapi({
+    description:
+      "Whether the last update covered every department, or is still in progress and has only updated some",
+  }),
+});
+
+export const freshnessSchema = z.object({
+  pipelines: pipelineFreshnessSchema.array(),
+  terms: termFreshnessSchema
+    .array()
+    .openapi({ description: "The freshness of WebSoc data for each term, most recent term first" }),
+});
@@ -1,4 +1,5 @@
 import { z } from "@hono/zod-openapi";
+import { programTypes } from "@packages/db/schema";
 
 const programIdBase = z.string({ required_error: "programId is required" });
 
@@ -282,3 +283,139 @@ export const ugradRequirementsResponseSchema = z.object({
     .array(programRequirementSchema)
     .openapi({ description: "The requirements in this requirements block" }),
 });
+
+export const programAuditBodySchema = z.object({
+  programType: z.enum(["major", "minor", "specialization"]).openapi({
+    description: "The type of program to audit",
+  }),
+  programId: programIdBase.openapi({
+    description: "The ID of the major, minor, or specialization to audit",
+    example: "BS-201",
+  }),
+  completedCourses: z
+    .object({
+      courseId: z.string().openapi({ example: "I&CSCI31" }),
+      units: z.number().nonnegative().openapi({ example: 4 }),
+    })
+    .array()
+    .openapi({
+      description: "The courses which have been completed, and the units earned for each",
+    }),
+  completedMarkers: z
+    .string()
+    .array()
+    .default([])
+    .openapi({
+      description: "The labels of marker requirements which have been completed",
+      example: ["Entry Level Writing"],
+    }),
+});
+
+export const programAuditStatuses = ["satisfied", "partial", "unsatisfied"] as const;
+
+export const programAuditResultSchema = z.object({
+  status: z.enum(programAuditStatuses).openapi({
+    description:
+      "Whether this requirement is satisfied, partially satisfied, or has not been started",
+  }),
+  coursesApplied: z.string().array().openapi({
+    description: "The completed courses which were applied towards this requirement",
+  }),
+  remaining: z.number().nonnegative().openapi({
+    description:
+      "The number of courses, units, or sub-requirements (depending on the type of this requirement) still needed",
+  }),
+});
+
+type ProgramAuditRequirement = z.infer<typeof programAuditResultSchema> &
+  (
+    | z.infer<typeof programCourseRequirementSchema>
+    | z.infer<typeof programUnitRequirementSchema>
+    | z.infer<typeof programMarkerRequirementSchema>
+    | (z.infer<typeof programRequirementBaseSchema> & {
+        requirementType: "Group";
+        requirementCount: number;
+        requirements: ProgramAuditRequirement[];
+      })
+  );
+
+export const programAuditRequirementSchema: z.ZodType<ProgramAuditRequirement> = z.union([
+  programCourseRequirementSchema.merge(programAuditResultSchema),
+  programUnitRequirementSchema.merge(programAuditResultSchema),
+  programRequirementBaseSchema.merge(programAuditResultSchema).extend({
+    requirementType: z.literal("Group"),
+    requirementCount: z.number().int().nonnegative(),
+    requirements: z
+      .lazy(() => programAuditRequirementSchema)
+      .array()
+      .openapi({
+        description: "The audited sub-requirements of this requirement",
+        type: "array",
+        items: { $ref: "#/components/schemas/programAuditRequirement" },
+      }),
+  }),
+  programMarkerRequirementSchema.merge(programAuditResultSchema),
+]);
+
+export const programAuditResponseSchema = z.object({
+  id: z.string().openapi({ description: "ID of the audited program", example: "BS-201" }),
+  name: z.string().openapi({
+    description: "Human name of the audited program",
+    example: "Major in Computer Science",
+  }),
+  status: z.enum(programAuditStatuses).openapi({
+    description: "Whether all requirements audited here are satisfied",
+  }),
+  requirements: programAuditRequirementSchema.array().openapi({
+    description: "The requirements of this program, annotated with audit results",
+  }),
+  schoolRequirements: z
+    .object({
+      name: z.string(),
+      requirements: programAuditRequirementSchema.array(),
+    })
+    .nullable()
+    .openapi({
+      description:
+        "If the audited program is a major with school requirements, those requirements annotated with audit results",
+    }),
+  ugradRequirements: z
+    .object({
+      id: z.enum(UgradRequirementsBlockIds),
+      requirements: programAuditRequirementSchema.array(),
+    })
+    .array()
+    .openapi({
+      description:
+        "If the audited program is an undergraduate major, the UC and GE requirements annotated with audit results",
+    }),
+});
+
+export const programsByCourseQuerySchema = z.object({
+  courseId: z.string({ required_error: "courseId is required" }).openapi({
+    description: "The ID of the course to find programs for",
+    example: "COMPSCI161",
+  }),
+});
+
+export const programsByCourseResponseSchema = z.array(
+  z.object({
+    programType: z.enum(programTypes).openapi({
+      description:
+        "The type of this program; 'ugrad' refers to an undergraduate requirements block such as UC or GE",
+    }),
+    id: z.string().openapi({ description: "ID of this program", example: "BS-201" }),
+    name: z.string().openapi({
+      description: "The human name of this program",
+      example: "Major in Computer Science",
+    }),
+    requirementLabels: z
+      .string()
+      .array()
+      .openapi({
+        description:
+          "The labels of the requirements of this program which this course counts toward",
+        example: ["Upper-division Core"],
+      }),
+  }),
+);
@@ -0,0 +1,44 @@
+import { z } from "@hono/zod-openapi";
+
+export const usageQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int()
+    .positive()
+    .lte(90, "Number of days must be less than or equal to 90")
+    .default(30)
+    .openapi({ description: "The number of days of usage to return, including today (UTC)" }),
+});
+
+export const usageRecordSchema = z.object({
+  date: z.string().openapi({ description: "The day of this record (UTC)", example: "2024-09-30" }),
+  route: z.string().openapi({
+    description: "The route which was requested, with path parameters left unfilled",
+    example: "/v2/rest/courses/:id",
+  }),
+  count: z.number().int().nonnegative().openapi({ example: 42 }),
+});
+
+export const usageSchema = z.object({
+  limit: z.number().int().openapi({
+    description: "The number of requests this key may make per hour",
+    example: 25000,
+  }),
+  remaining: z.number().int().openapi({
+    description: "The number of requests this key may make until the rate limit resets",
+    example: 24958,
+  }),
+  resetAt: z.string().nullable().openapi({
+    description: "When the rate limit resets, if known",
+    example: "2024-09-30T18:00:00.000Z",
+  }),
+  lastUsedAt: z.string().nullable().openapi({
+    description:
+      "When this key was last used to make a request to an endpoint other than this one, if ever",
+    example: "2024-09-30T17:42:13.000Z",
+  }),
+  usage: usageRecordSchema.array().openapi({
+    description:
+      "The number of requests made with this key per route per day, in chronological order",
+  }),
+});
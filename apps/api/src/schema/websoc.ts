@@ -2,7 +2,7 @@ import { z } from "@hono/zod-openapi";
 import type { FinalExamStatus } from "@packages/db/schema";
 import { courseLevels, terms, websocSectionTypes, websocStatuses } from "@packages/db/schema";
 import { isBaseTenInt } from "@packages/stdlib";
-import { courseNumberSchema, daysSchema, timeSchema, yearSchema } from "./lib";
+import { courseNumberSchema, daysSchema, sectionCursorSchema, timeSchema, yearSchema } from "./lib";
 
 const anyArray = ["ANY"] as const;
 
@@ -166,6 +166,13 @@ export const websocQuerySchema = z.object({
     }),
 });
 
+export const websocByCursorQuerySchema = websocQuerySchema
+  .omit({ includeRelatedCourses: true })
+  .extend({
+    cursor: sectionCursorSchema.optional(),
+    take: z.coerce.number().lte(100, "Page size must be less than or equal to 100").default(100),
+  });
+
 export const hourMinuteSchema = z.object({
   hour: z.number(),
   minute: z.number(),
@@ -268,3 +275,174 @@ export const websocTermResponseSchema = z.object({
   shortName: z.string(),
   longName: z.string(),
 });
+
+const sectionCodeListSchema = z
+  .string({ required_error: "Parameter 'sectionCodes' is required" })
+  .transform((codes, ctx) => {
+    const parsedCodes = new Set<number>();
+    for (const code of codes.split(",").map((code) => code.trim())) {
+      if (!isBaseTenInt(code)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `'${code}' is not a valid section code. A valid section code is a base-10 integer.`,
+        });
+        return z.NEVER;
+      }
+      parsedCodes.add(Number.parseInt(code, 10));
+    }
+    return Array.from(parsedCodes);
+  });
+
+export const websocSectionQuerySchema = z.object({
+  year: yearSchema,
+  quarter: z.enum(terms, { required_error: "Parameter 'quarter' is required" }),
+  sectionCode: z
+    .string({ required_error: "Parameter 'sectionCode' is required" })
+    .refine(isBaseTenInt, {
+      message: "Parameter 'sectionCode' is not a valid section code",
+    })
+    .transform((code) => code.padStart(5, "0")),
+});
+
+export const websocConflictsQuerySchema = z.object({
+  year: yearSchema,
+  quarter: z.enum(terms, { required_error: "Parameter 'quarter' is required" }),
+  sectionCodes: sectionCodeListSchema.openapi({
+    description: "Comma-separated list of section codes to check against each other",
+    example: "34250,34260,35500",
+  }),
+});
+
+export const websocMeetingConflictSchema = z.object({
+  sectionCodes: z.tuple([z.string(), z.string()]).openapi({
+    description: "The two sections whose meetings overlap",
+    example: ["34250", "35500"],
+  }),
+  days: z
+    .string()
+    .array()
+    .openapi({ description: "The days on which both meetings take place", example: ["M", "W"] }),
+  startTime: hourMinuteSchema.openapi({ description: "The start of the overlapping period" }),
+  endTime: hourMinuteSchema.openapi({ description: "The end of the overlapping period" }),
+});
+
+export const websocFinalExamConflictSchema = z.object({
+  sectionCodes: z.tuple([z.string(), z.string()]).openapi({
+    description: "The two sections whose final exams overlap",
+    example: ["34250", "35500"],
+  }),
+  month: z.number().openapi({ description: "The zero-indexed month of both final exams" }),
+  day: z.number().openapi({ description: "The day of the month of both final exams" }),
+  startTime: hourMinuteSchema.openapi({ description: "The start of the overlapping period" }),
+  endTime: hourMinuteSchema.openapi({ description: "The end of the overlapping period" }),
+});
+
+export const websocConflictsResponseSchema = z.object({
+  meetingConflicts: websocMeetingConflictSchema.array(),
+  finalExamConflicts: websocFinalExamConflictSchema.array(),
+  tbaMeetings: z.string().array().openapi({
+    description:
+      "Section codes with at least one meeting whose time is TBA, which therefore could not be checked",
+  }),
+  tbaFinalExams: z.string().array().openapi({
+    description: "Section codes whose final exam time is TBA, which therefore could not be checked",
+  }),
+  notFound: z.string().array().openapi({
+    description: "Section codes which do not exist in the given term",
+  }),
+});
+
+export const websocSchedulesQuerySchema = z.object({
+  year: yearSchema,
+  quarter: z.enum(terms, { required_error: "Parameter 'quarter' is required" }),
+  courseIds: z
+    .string({ required_error: "Parameter 'courseIds' is required" })
+    .transform((ids) =>
+      Array.from(
+        new Set(
+          ids
+            .split(",")
+            .map((id) => id.replaceAll(" ", "").toUpperCase())
+            .filter((id) => id.length),
+        ),
+      ),
+    )
+    .pipe(
+      z
+        .string()
+        .array()
+        .min(1, "Parameter 'courseIds' must contain at least one course ID")
+        .max(10, "Parameter 'courseIds' must contain at most 10 course IDs"),
+    )
+    .openapi({
+      description: "Comma-separated list of IDs of the courses to schedule",
+      example: "COMPSCI161,I&CSCI46",
+    }),
+  earliestStart: timeSchema
+    .optional()
+    .openapi({ description: "If present, no meeting in a schedule will start before this time" }),
+  latestEnd: timeSchema
+    .optional()
+    .openapi({ description: "If present, no meeting in a schedule will end after this time" }),
+  excludedDays: daysSchema
+    .optional()
+    .openapi({ description: "If present, no meeting in a schedule will take place on these days" }),
+  skipFull: z.coerce
+    .string()
+    .transform((x) => x.toLowerCase() === "true")
+    .pipe(z.boolean())
+    .optional()
+    .openapi({ description: "Whether to exclude sections whose status is FULL" }),
+  take: z.coerce
+    .number()
+    .int()
+    .positive()
+    .lte(100, "Number of schedules must be less than or equal to 100")
+    .default(25)
+    .openapi({ description: "The maximum number of schedules to return" }),
+});
+
+export const websocScheduleSectionSchema = z.object({
+  courseId: z.string().openapi({ example: "COMPSCI161" }),
+  sectionCode: z.string().openapi({ example: "34250" }),
+  sectionType: z.enum(websocSectionTypes).openapi({ example: "Lec" }),
+  sectionNum: z.string().openapi({ example: "A" }),
+});
+
+export const websocSchedulesResponseSchema = z.object({
+  schedules: z
+    .object({
+      sections: websocScheduleSectionSchema.array().openapi({
+        description:
+          "The sections making up this schedule; one section of each type offered by each course",
+      }),
+    })
+    .array(),
+  coursesWithoutSections: z
+    .string()
+    .array()
+    .openapi({
+      description:
+        "IDs of courses which have no sections satisfying the given constraints in the given term. " +
+        "If this is not empty, no schedules can be generated.",
+    }),
+  searchLimitReached: z.boolean().openapi({
+    description:
+      "Whether the search for schedules was stopped early because the given courses have too many " +
+      "combinations of sections to consider. If this is true, other schedules may exist.",
+  }),
+});
+
+export const websocCalendarQuerySchema = z.object({
+  year: yearSchema,
+  quarter: z.enum(terms, { required_error: "Parameter 'quarter' is required" }),
+  sectionCodes: sectionCodeListSchema.openapi({
+    description: "Comma-separated list of section codes to include in the calendar",
+    example: "34250,34260,35500",
+  }),
+});
+
+export const websocCalendarResponseSchema = z.string().openapi({
+  description: "An RFC 5545 iCalendar file",
+  example: "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n...\r\nEND:VCALENDAR\r\n",
+});
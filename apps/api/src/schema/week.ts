@@ -1,4 +1,5 @@
 import { z } from "@hono/zod-openapi";
+import { terms } from "@packages/db/schema";
 import { yearSchema } from "./lib";
 const shortMonths = [4, 6, 9, 11];
 
@@ -55,3 +56,57 @@ export const weekSchema = z.object({
     }),
   display: z.string().openapi({ example: "Week 1 • Fall Quarter 2024" }),
 });
+
+export const weekBatchQuerySchema = z.object({
+  dates: z
+    .string({ required_error: "Parameter 'dates' is required" })
+    .transform((dates, ctx) => {
+      const parsedDates = new Map<string, Date>();
+      for (const date of dates.split(",").map((date) => date.trim())) {
+        const parsedDate = new Date(`${date}T00:00:00Z`);
+        if (
+          !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+          Number.isNaN(parsedDate.valueOf()) ||
+          parsedDate.toISOString().split("T")[0] !== date
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `'${date}' is not a valid date. A valid date is in YYYY-MM-DD format.`,
+          });
+          return z.NEVER;
+        }
+        parsedDates.set(date, parsedDate);
+      }
+      return Array.from(parsedDates.values());
+    })
+    .refine((dates) => dates.length <= 100, {
+      message: "Parameter 'dates' must contain at most 100 dates",
+    })
+    .openapi({
+      description: "Comma-separated list of dates in YYYY-MM-DD format",
+      example: "2024-09-30,2024-11-11,2024-12-09",
+    }),
+});
+
+export const datedWeekSchema = weekSchema.extend({
+  date: z.string().openapi({ example: "2024-09-30" }),
+});
+
+export const weekSpanSchema = z.object({
+  start: z.string().openapi({ description: "The first day of this span", example: "2024-09-30" }),
+  end: z.string().openapi({ description: "The last day of this span", example: "2024-10-06" }),
+});
+
+export const termWeeksSchema = z.object({
+  year: z.string().openapi({ example: "2024" }),
+  quarter: z.enum(terms).openapi({ example: "Fall" }),
+  weeks: weekSpanSchema
+    .extend({ week: z.number().int().openapi({ example: 1 }) })
+    .array()
+    .openapi({
+      description:
+        "Every week of instruction in this term, each spanning from Monday to Sunday. " +
+        "Fall quarter begins with week 0.",
+    }),
+  finals: weekSpanSchema.openapi({ description: "The finals period of this term" }),
+});
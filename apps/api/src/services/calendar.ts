@@ -1,9 +1,10 @@
-import type { calendarQuerySchema } from "$schema";
+import type { calendarFeedQuerySchema, calendarQuerySchema } from "$schema";
 import type { database } from "@packages/db";
-import { eq } from "@packages/db/drizzle";
-import { calendarTerm } from "@packages/db/schema";
+import { and, eq, inArray } from "@packages/db/drizzle";
+import { type Term, calendarEvent, calendarTerm } from "@packages/db/schema";
 import { orNull } from "@packages/stdlib";
 import type { z } from "zod";
+import { type ICalendarEvent, buildICalendar } from "./ics.ts";
 
 const toDateString = (d: Date): string => d.toISOString().split("T")[0];
 
@@ -16,8 +17,78 @@ const calendarTermMapper = (term: typeof calendarTerm.$inferSelect) => ({
   socAvailable: toDateString(term.socAvailable),
 });
 
+const calendarEventMapper = ({
+  type,
+  title,
+  startDate,
+  endDate,
+}: typeof calendarEvent.$inferSelect) => ({
+  type,
+  title,
+  startDate: toDateString(startDate),
+  endDate: toDateString(endDate),
+});
+
+const nextDateString = (date: string): string =>
+  toDateString(new Date(new Date(date).getTime() + 24 * 60 * 60 * 1000));
+
+type CalendarTerm = ReturnType<typeof calendarTermMapper>;
+
+const termName = ({ year, quarter }: CalendarTerm) => {
+  switch (quarter) {
+    case "Summer1":
+      return `Summer Session I ${year}`;
+    case "Summer2":
+      return `Summer Session II ${year}`;
+    case "Summer10wk":
+      return `Summer Session 10WK ${year}`;
+    default:
+      return `${quarter} Quarter ${year}`;
+  }
+};
+
+/**
+ * Returns the key dates of a term as all-day events.
+ * Finals are a single event spanning the entirety of finals week.
+ */
+function termEvents(term: CalendarTerm): ICalendarEvent[] {
+  const { instructionStart, instructionEnd, finalsStart, finalsEnd, socAvailable } = term;
+  const name = termName(term);
+  const uid = (event: string) =>
+    `${term.year}-${term.quarter}-${event}@anteaterapi.com`.toLowerCase();
+  const allDay = (date: string) => ({
+    start: { date },
+    end: { date: nextDateString(date) },
+  });
+  return [
+    {
+      uid: uid("soc-available"),
+      summary: `${name}: Schedule of Classes available`,
+      ...allDay(socAvailable),
+    },
+    {
+      uid: uid("instruction-start"),
+      summary: `${name}: Instruction begins`,
+      ...allDay(instructionStart),
+    },
+    {
+      uid: uid("instruction-end"),
+      summary: `${name}: Instruction ends`,
+      ...allDay(instructionEnd),
+    },
+    {
+      uid: uid("finals"),
+      summary: `${name}: Final examinations`,
+      start: { date: finalsStart },
+      end: { date: nextDateString(finalsEnd) },
+    },
+  ];
+}
+
 type CalendarServiceInput = z.infer<typeof calendarQuerySchema>;
 
+type CalendarFeedServiceInput = z.infer<typeof calendarFeedQuerySchema>;
+
 export class CalendarService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
@@ -31,10 +102,48 @@ export class CalendarService {
     return orNull(row);
   }
 
+  async batchGetCalendarTerms(terms: { year: string; quarter: Term }[]) {
+    return this.db
+      .select()
+      .from(calendarTerm)
+      .where(
+        inArray(
+          calendarTerm.id,
+          terms.map(({ year, quarter }) => `${year} ${quarter}`),
+        ),
+      )
+      .then((rows) => rows.map(calendarTermMapper));
+  }
+
   async getAllCalendarTerms() {
     return this.db
       .select()
       .from(calendarTerm)
       .then((rows) => rows.map(calendarTermMapper));
   }
+
+  async getCalendarEvents(input: CalendarServiceInput) {
+    const { year, quarter } = input;
+    return this.db
+      .select()
+      .from(calendarEvent)
+      .where(and(eq(calendarEvent.year, year), eq(calendarEvent.quarter, quarter)))
+      .orderBy(calendarEvent.startDate)
+      .then((rows) => rows.map(calendarEventMapper));
+  }
+
+  async getCalendarFeed(input: CalendarFeedServiceInput) {
+    const { startYear, endYear, quarter } = input;
+    const terms = await this.getAllCalendarTerms().then((terms) =>
+      terms
+        .filter(
+          (term) =>
+            (!startYear || term.year >= startYear) &&
+            (!endYear || term.year <= endYear) &&
+            (!quarter || term.quarter === quarter),
+        )
+        .sort((a, b) => a.instructionStart.localeCompare(b.instructionStart)),
+    );
+    return buildICalendar("UCI Academic Calendar", terms.flatMap(termEvents));
+  }
 }
@@ -1,17 +1,33 @@
 import type {
+  courseEligibilityBodySchema,
+  courseEligibilitySchema,
   coursePreviewSchema,
   courseSchema,
   coursesByCursorQuerySchema,
   coursesQuerySchema,
   instructorPreviewSchema,
   outputCourseLevels,
+  prerequisiteGraphQuerySchema,
+  prerequisiteGraphSchema,
 } from "$schema";
-import { outputGECategories } from "$schema";
+import { courseGrades, outputGECategories } from "$schema";
 import type { database } from "@packages/db";
 import type { SQL } from "@packages/db/drizzle";
 import { and, eq, gte, ilike, inArray, lt, lte } from "@packages/db/drizzle";
-import type { CourseLevel, course } from "@packages/db/schema";
-import { courseView } from "@packages/db/schema";
+import type {
+  APCoursesGrantedTree,
+  CourseLevel,
+  Prerequisite,
+  PrerequisiteTree,
+  course,
+} from "@packages/db/schema";
+import {
+  apExam,
+  apExamReward,
+  apExamToReward,
+  courseView,
+  prerequisite,
+} from "@packages/db/schema";
 import { isTrue } from "@packages/db/utils";
 import { orNull } from "@packages/stdlib";
 import type { z } from "zod";
@@ -22,6 +38,12 @@ type CoursesServiceOutput = z.infer<typeof courseSchema>;
 
 type CoursesByCursorServiceInput = z.infer<typeof coursesByCursorQuerySchema>;
 
+type CourseEligibilityServiceInput = z.infer<typeof courseEligibilityBodySchema>;
+
+type PrerequisiteGraphServiceInput = z.infer<typeof prerequisiteGraphQuerySchema>;
+
+type PrerequisiteGraphEdge = z.infer<typeof prerequisiteGraphSchema>["edges"][number];
+
 const mapCourseLevel = (courseLevel: CourseLevel): (typeof outputCourseLevels)[number] =>
   courseLevel === "LowerDiv"
     ? "Lower Division (1-99)"
@@ -143,6 +165,96 @@ function buildQuery(input: CoursesServiceInput | CoursesByCursorServiceInput) {
   return and(...conditions);
 }
 
+const normalizeCourseId = (courseId: string) => courseId.replaceAll(" ", "").toUpperCase();
+
+/**
+ * Returns the rank of a grade, where lower ranks are better.
+ * A grade of P is equivalent to a C or better.
+ */
+const gradeRank = (grade: string) =>
+  (courseGrades as readonly string[]).indexOf(grade === "P" ? "C" : grade === "NP" ? "F" : grade);
+
+const gradeSatisfies = (grade: string | undefined, minGrade: string | undefined) =>
+  !grade || !minGrade || gradeRank(minGrade) === -1 || gradeRank(grade) <= gradeRank(minGrade);
+
+const flattenCoursesGranted = (tree: APCoursesGrantedTree): string[] =>
+  ("AND" in tree ? tree.AND : tree.OR).flatMap((x) =>
+    typeof x === "string" ? [x] : flattenCoursesGranted(x),
+  );
+
+const isPrerequisite = (node: Prerequisite | PrerequisiteTree): node is Prerequisite =>
+  "prereqType" in node;
+
+/**
+ * Returns the parts of a prerequisite tree which are not satisfied, or null if the tree is satisfied.
+ * Satisfied branches of AND nodes are pruned; OR nodes are kept in full if none of their branches
+ * are satisfied; and NOT nodes are reduced to the branches which are satisfied.
+ */
+function getUnsatisfiedPrerequisites<T extends Prerequisite | PrerequisiteTree>(
+  node: T,
+  isSatisfied: (prerequisite: Prerequisite) => boolean,
+): T | null {
+  if (isPrerequisite(node)) return isSatisfied(node) ? null : node;
+  const unsatisfied: PrerequisiteTree = {};
+  if (node.AND) {
+    const branches = node.AND.map((x) => getUnsatisfiedPrerequisites(x, isSatisfied)).filter(
+      (x) => x !== null,
+    );
+    if (branches.length) unsatisfied.AND = branches;
+  }
+  if (node.OR?.length) {
+    const branches = node.OR.map((x) => getUnsatisfiedPrerequisites(x, isSatisfied)).filter(
+      (x) => x !== null,
+    );
+    if (branches.length === node.OR.length) unsatisfied.OR = branches;
+  }
+  if (node.NOT) {
+    const branches = node.NOT.filter((x) => getUnsatisfiedPrerequisites(x, isSatisfied) === null);
+    if (branches.length) unsatisfied.NOT = branches;
+  }
+  return Object.keys(unsatisfied).length ? (unsatisfied as T) : null;
+}
+
+const prerequisiteCourseIds = (node: Prerequisite | PrerequisiteTree): string[] =>
+  isPrerequisite(node)
+    ? node.prereqType === "course"
+      ? [normalizeCourseId(node.courseId)]
+      : []
+    : [...(node.AND ?? []), ...(node.OR ?? [])].flatMap(prerequisiteCourseIds);
+
+/**
+ * Returns every cycle encountered while performing a depth-first search of the graph.
+ * This is not necessarily every elementary cycle in the graph, but is non-empty if and only if
+ * the graph contains a cycle.
+ */
+function findCycles(edges: PrerequisiteGraphEdge[]) {
+  const adjacencyList = edges.reduce(
+    (acc, { prerequisiteId, dependencyId }) =>
+      acc.set(prerequisiteId, [...(acc.get(prerequisiteId) ?? []), dependencyId]),
+    new Map<string, string[]>(),
+  );
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const visit = (id: string) => {
+    visited.add(id);
+    stack.push(id);
+    for (const next of adjacencyList.get(id) ?? []) {
+      const index = stack.indexOf(next);
+      if (index !== -1) {
+        cycles.push(stack.slice(index));
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+  };
+  for (const id of adjacencyList.keys()) {
+    if (!visited.has(id)) visit(id);
+  }
+  return cycles;
+}
+
 export class CoursesService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
@@ -197,4 +309,194 @@ export class CoursesService {
       nextCursor,
     };
   }
+
+  async getCourseEligibility(
+    id: string,
+    input: CourseEligibilityServiceInput,
+  ): Promise<z.infer<typeof courseEligibilitySchema> | null> {
+    const course = await this.getCourseById(id);
+    if (!course) return null;
+    const completedCourses = new Map(
+      input.completedCourses.map((x) =>
+        typeof x === "string"
+          ? [normalizeCourseId(x), undefined]
+          : [normalizeCourseId(x.courseId), x.grade],
+      ),
+    );
+    const inProgressCourses = new Set(input.inProgressCourses.map(normalizeCourseId));
+    const examScores = new Map<string, number>();
+    if (input.apExams.length) {
+      const scores = new Map(input.apExams.map((x) => [x.fullName, x.score]));
+      const rows = await this.db
+        .select({
+          fullName: apExam.id,
+          catalogueName: apExam.catalogueName,
+          score: apExamToReward.score,
+          coursesGranted: apExamReward.coursesGranted,
+        })
+        .from(apExam)
+        .leftJoin(apExamToReward, eq(apExam.id, apExamToReward.examId))
+        .leftJoin(apExamReward, eq(apExamToReward.reward, apExamReward.id))
+        .where(inArray(apExam.id, scores.keys().toArray()));
+      for (const row of rows) {
+        const score = scores.get(row.fullName);
+        if (score === undefined) continue;
+        examScores.set(row.fullName, score);
+        if (row.catalogueName) examScores.set(row.catalogueName, score);
+        if (row.score === score && row.coursesGranted) {
+          for (const courseId of flattenCoursesGranted(row.coursesGranted)) {
+            if (!completedCourses.has(normalizeCourseId(courseId))) {
+              completedCourses.set(normalizeCourseId(courseId), undefined);
+            }
+          }
+        }
+      }
+    }
+    const unsatisfiedPrerequisiteTree = getUnsatisfiedPrerequisites(
+      course.prerequisiteTree,
+      (prerequisite) => {
+        if (prerequisite.prereqType === "exam") {
+          const score = examScores.get(prerequisite.examName);
+          return (
+            score !== undefined &&
+            (!prerequisite.minGrade || score >= Number.parseInt(prerequisite.minGrade, 10))
+          );
+        }
+        const courseId = normalizeCourseId(prerequisite.courseId);
+        if (completedCourses.has(courseId)) {
+          return (
+            prerequisite.coreq ||
+            gradeSatisfies(completedCourses.get(courseId), prerequisite.minGrade)
+          );
+        }
+        return inProgressCourses.has(courseId) && (prerequisite.coreq || !prerequisite.minGrade);
+      },
+    );
+    return {
+      id: course.id,
+      eligible: unsatisfiedPrerequisiteTree === null,
+      unsatisfiedPrerequisiteTree,
+    };
+  }
+
+  /**
+   * Returns the minimum number of quarters needed to complete a course, given a set of completed
+   * courses. Prerequisites must be completed in an earlier quarter than the courses which depend
+   * on them, while corequisites may be taken in the same quarter.
+   */
+  private async getMinimumQuarters(id: string, completedCourses: Set<string>) {
+    const prerequisiteTrees = new Map<string, PrerequisiteTree>();
+    let frontier = [id];
+    while (frontier.length) {
+      const rows = await this.db
+        .select({ id: courseView.id, prerequisiteTree: courseView.prerequisiteTree })
+        .from(courseView)
+        .where(inArray(courseView.id, frontier));
+      frontier = [];
+      for (const row of rows) {
+        prerequisiteTrees.set(row.id, row.prerequisiteTree);
+        for (const courseId of prerequisiteCourseIds(row.prerequisiteTree)) {
+          if (
+            !completedCourses.has(courseId) &&
+            !prerequisiteTrees.has(courseId) &&
+            !frontier.includes(courseId)
+          ) {
+            frontier.push(courseId);
+          }
+        }
+      }
+    }
+    const memo = new Map<string, number>();
+    const visiting = new Set<string>();
+    let cycleEncountered = false;
+    const quartersToComplete = (courseId: string): number => {
+      if (completedCourses.has(courseId)) return 0;
+      const cached = memo.get(courseId);
+      if (cached !== undefined) return cached;
+      // A course cannot be a prerequisite of itself, so this path does not lead anywhere.
+      // Results which depend on this are not memoized, since they may be reachable another way.
+      if (visiting.has(courseId)) {
+        cycleEncountered = true;
+        return Number.POSITIVE_INFINITY;
+      }
+      visiting.add(courseId);
+      const cycleEncounteredBefore = cycleEncountered;
+      cycleEncountered = false;
+      const tree = prerequisiteTrees.get(courseId);
+      const res = 1 + (tree ? quartersBefore(tree) : 0);
+      if (!cycleEncountered) memo.set(courseId, res);
+      cycleEncountered ||= cycleEncounteredBefore;
+      visiting.delete(courseId);
+      return res;
+    };
+    const quartersBefore = (node: Prerequisite | PrerequisiteTree): number => {
+      if (isPrerequisite(node)) {
+        if (node.prereqType === "exam") return Number.POSITIVE_INFINITY;
+        const quarters = quartersToComplete(normalizeCourseId(node.courseId));
+        return node.coreq ? Math.max(quarters - 1, 0) : quarters;
+      }
+      return Math.max(
+        0,
+        ...(node.AND ?? []).map(quartersBefore),
+        node.OR?.length ? Math.min(...node.OR.map(quartersBefore)) : 0,
+      );
+    };
+    const res = quartersToComplete(normalizeCourseId(id));
+    return Number.isFinite(res) ? res : null;
+  }
+
+  async getPrerequisiteGraph(
+    id: string,
+    input: PrerequisiteGraphServiceInput,
+  ): Promise<z.infer<typeof prerequisiteGraphSchema> | null> {
+    const [root] = await this.db
+      .select({ id: courseView.id })
+      .from(courseView)
+      .where(eq(courseView.id, id));
+    if (!root) return null;
+    const depths = new Map([[root.id, 0]]);
+    const edges = new Map<string, PrerequisiteGraphEdge>();
+    for (const direction of [-1, 1]) {
+      let frontier = [root.id];
+      for (let level = 1; level <= input.depth && frontier.length; ++level) {
+        const rows = await this.db
+          .select({
+            prerequisiteId: prerequisite.prerequisiteId,
+            dependencyId: prerequisite.dependencyId,
+          })
+          .from(prerequisite)
+          .where(
+            inArray(
+              direction === -1 ? prerequisite.dependencyId : prerequisite.prerequisiteId,
+              frontier,
+            ),
+          );
+        frontier = [];
+        for (const row of rows) {
+          edges.set(`${row.prerequisiteId} ${row.dependencyId}`, row);
+          const next = direction === -1 ? row.prerequisiteId : row.dependencyId;
+          if (!depths.has(next)) {
+            depths.set(next, direction * level);
+            frontier.push(next);
+          }
+        }
+      }
+    }
+    const titles = await this.db
+      .select({ id: courseView.id, title: courseView.title })
+      .from(courseView)
+      .where(inArray(courseView.id, depths.keys().toArray()))
+      .then((rows) => new Map(rows.map((row) => [row.id, row.title])));
+    return {
+      nodes: depths
+        .entries()
+        .map(([id, depth]) => ({ id, title: titles.get(id) ?? null, depth }))
+        .toArray(),
+      edges: edges.values().toArray(),
+      cycles: findCycles(edges.values().toArray()),
+      minimumQuarters: input.completedCourses
+        ? await this.getMinimumQuarters(root.id, new Set(input.completedCourses))
+        : null,
+    };
+  }
 }
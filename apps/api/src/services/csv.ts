@@ -0,0 +1,69 @@
+type CSVValue = string | number | boolean | null;
+
+export type CSVRow = Record<string, CSVValue>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Encodes a value as a CSV field, per RFC 4180. Arrays and objects other than dates are encoded as JSON.
+ */
+export function toCSVField(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  const field =
+    typeof value === "string"
+      ? value
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
+}
+
+/**
+ * Flattens a value into rows which can be encoded as CSV.
+ *
+ * The fields of nested objects become columns named by their path (e.g. `startTime.hour`), and lists of values
+ * are joined with semicolons in sorted order, so that the output does not depend on the order of the list.
+ * Lists of objects are expanded into one row per object, each of which repeats the fields of its parent.
+ * The columns of empty lists are left empty.
+ */
+export function flattenForCSV(value: unknown, prefix = ""): CSVRow[] {
+  if (Array.isArray(value)) return value.flatMap((item) => flattenForCSV(item, prefix));
+  if (!isPlainObject(value)) return [{ [prefix.slice(0, -1) || "value"]: toCSVValue(value) }];
+  let rows: CSVRow[] = [{}];
+  for (const [key, field] of Object.entries(value)) {
+    const path = `${prefix}${key}`;
+    // whether an empty list would contain values or objects is unknown, so its column(s) are left empty
+    if (Array.isArray(field) && !field.length) continue;
+    if (isPlainObject(field) || (Array.isArray(field) && field.some(isPlainObject))) {
+      const children = flattenForCSV(field, `${path}.`);
+      rows = rows.flatMap((row) => children.map((child) => ({ ...row, ...child })));
+    } else {
+      rows = rows.map((row) => ({ ...row, [path]: toCSVValue(field) }));
+    }
+  }
+  return rows;
+}
+
+function toCSVValue(value: unknown): CSVValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value))
+    return value
+      .map((item) => String(toCSVValue(item) ?? ""))
+      .sort()
+      .join(";");
+  if (typeof value === "object") return JSON.stringify(value);
+  return value as CSVValue;
+}
+
+/**
+ * Encodes the given rows as CSV with a header row. The columns are those of every row, in order of appearance.
+ */
+export function toCSV(rows: CSVRow[]) {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((fields) => `${fields.map(toCSVField).join(",")}\r\n`)
+    .join("");
+}
@@ -1,6 +1,12 @@
-import type { enrollmentHistoryQuerySchema, enrollmentHistorySchema } from "$schema";
+import type {
+  enrollmentAnalyticsSchema,
+  enrollmentHistoryByCursorQuerySchema,
+  enrollmentHistoryQuerySchema,
+  enrollmentHistorySchema,
+  enrollmentHistoryTimeseriesSchema,
+} from "$schema";
 import type { database } from "@packages/db";
-import { and, eq, getTableColumns, inArray } from "@packages/db/drizzle";
+import { type SQL, and, eq, exists, getTableColumns, inArray, lt, or } from "@packages/db/drizzle";
 import {
   websocCourse,
   websocInstructor,
@@ -11,10 +17,64 @@ import {
   websocSectionMeetingToLocation,
   websocSectionToInstructor,
 } from "@packages/db/schema";
+import { negativeAsNull } from "@packages/stdlib";
 import type { z } from "zod";
+import { sectionAtOrAfter, sectionOrder, toSectionCursor } from "./util.ts";
 
 type EnrollmentHistoryServiceInput = z.infer<typeof enrollmentHistoryQuerySchema>;
 
+type EnrollmentHistoryByCursorServiceInput = z.infer<typeof enrollmentHistoryByCursorQuerySchema>;
+
+type EnrollmentHistory = Pick<
+  z.infer<typeof enrollmentHistorySchema>,
+  | "year"
+  | "quarter"
+  | "department"
+  | "courseNumber"
+  | "sectionType"
+  | "sectionNum"
+  | "dates"
+  | "totalEnrolledHistory"
+  | "waitlistHistory"
+  | "statusHistory"
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().split("T")[0];
+
+/**
+ * Counts which were not recorded are either empty or negative.
+ */
+const parseCount = (count: string) => {
+  const n = Number.parseInt(count, 10);
+  return Number.isNaN(n) || n < 0 ? null : n;
+};
+
+const isFullStatus = (status: string | null) => status === "FULL" || status === "Waitl";
+
+/**
+ * Sections are considered to be the same across years if they belong to the same course,
+ * are offered in the same quarter, and share a section type and number.
+ */
+const offeringKeyOf = (
+  section: Pick<
+    EnrollmentHistory,
+    "department" | "courseNumber" | "quarter" | "sectionType" | "sectionNum"
+  >,
+) =>
+  [
+    section.department,
+    section.courseNumber,
+    section.quarter,
+    section.sectionType,
+    section.sectionNum,
+  ].join(" ");
+
 function buildQuery(input: EnrollmentHistoryServiceInput) {
   const conditions = [];
   if (input.year) {
@@ -51,7 +111,7 @@ function transformSectionRows(
 ) {
   const mapping = new Map<
     string,
-    Omit<z.infer<typeof enrollmentHistorySchema>, "instructors" | "meetings"> & {
+    Omit<z.infer<typeof enrollmentHistoryTimeseriesSchema>, "instructors" | "meetings"> & {
       instructors: Set<string>;
       meetings: {
         bldg: Set<string>;
@@ -80,14 +140,7 @@ function transformSectionRows(
           },
         ],
         finalExam: row.section.finalExamString,
-        dates: [],
-        maxCapacityHistory: [],
-        totalEnrolledHistory: [],
-        waitlistHistory: [],
-        waitlistCapHistory: [],
-        requestedHistory: [],
-        newOnlyReservedHistory: [],
-        statusHistory: [],
+        history: [],
       });
       continue;
     }
@@ -109,10 +162,27 @@ function transformSectionRows(
   return mapping;
 }
 
+const toHistoryArrays = ({
+  history,
+  ...rest
+}: z.infer<typeof enrollmentHistoryTimeseriesSchema>): z.infer<typeof enrollmentHistorySchema> => ({
+  ...rest,
+  dates: history.map((snapshot) => snapshot.date),
+  maxCapacityHistory: history.map((snapshot) => snapshot.maxCapacity.toString(10)),
+  totalEnrolledHistory: history.map((snapshot) => snapshot.totalEnrolled?.toString(10) ?? ""),
+  waitlistHistory: history.map((snapshot) => snapshot.waitlist?.toString(10) ?? ""),
+  waitlistCapHistory: history.map((snapshot) => snapshot.waitlistCap?.toString(10) ?? ""),
+  requestedHistory: history.map((snapshot) => snapshot.requested?.toString(10) ?? ""),
+  newOnlyReservedHistory: history.map((snapshot) => snapshot.newOnlyReserved?.toString(10) ?? ""),
+  statusHistory: history.map((snapshot) => snapshot.status ?? ""),
+});
+
 export class EnrollmentHistoryService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
-  async getEnrollmentHistory(input: EnrollmentHistoryServiceInput) {
+  private async getEnrollmentHistoryTimeseriesWhere(
+    where: SQL | undefined,
+  ): Promise<z.infer<typeof enrollmentHistoryTimeseriesSchema>[]> {
     const sectionRows = await this.db
       .select({
         course: getTableColumns(websocCourse),
@@ -137,7 +207,8 @@ export class EnrollmentHistoryService {
         eq(websocSectionMeeting.id, websocSectionMeetingToLocation.meetingId),
       )
       .innerJoin(websocLocation, eq(websocLocation.id, websocSectionMeetingToLocation.locationId))
-      .where(buildQuery(input));
+      .where(where)
+      .orderBy(...sectionOrder);
     const transformedSectionRows = transformSectionRows(sectionRows);
     const enrollmentRows = await this.db
       .select()
@@ -147,18 +218,20 @@ export class EnrollmentHistoryService {
     for (const row of enrollmentRows) {
       const section = transformedSectionRows.get(row.sectionId);
       if (section) {
-        section.dates.push(row.createdAt.toISOString().split("T")[0]);
-        section.maxCapacityHistory.push(row.maxCapacity.toString(10));
-        section.totalEnrolledHistory.push(row.numCurrentlyTotalEnrolled?.toString(10) ?? "");
-        section.waitlistHistory.push(row.numOnWaitlist?.toString(10) ?? "");
-        section.waitlistCapHistory.push(row.numWaitlistCap?.toString(10) ?? "");
-        section.requestedHistory.push(row.numRequested?.toString(10) ?? "");
-        section.newOnlyReservedHistory.push(row.numNewOnlyReserved?.toString(10) ?? "");
-        section.statusHistory.push(row.status ?? "");
+        section.history.push({
+          date: row.createdAt.toISOString().split("T")[0],
+          maxCapacity: row.maxCapacity,
+          totalEnrolled: negativeAsNull(row.numCurrentlyTotalEnrolled),
+          waitlist: negativeAsNull(row.numOnWaitlist),
+          waitlistCap: negativeAsNull(row.numWaitlistCap),
+          requested: negativeAsNull(row.numRequested),
+          newOnlyReserved: negativeAsNull(row.numNewOnlyReserved),
+          status: row.status,
+        });
       }
     }
     const filteredSections = transformedSectionRows.values().filter((section) => {
-      return section.dates.length > 0;
+      return section.history.length > 0;
     });
 
     return filteredSections
@@ -169,4 +242,222 @@ export class EnrollmentHistoryService {
       }))
       .toArray();
   }
+
+  async getEnrollmentHistoryTimeseries(
+    input: EnrollmentHistoryServiceInput,
+  ): Promise<z.infer<typeof enrollmentHistoryTimeseriesSchema>[]> {
+    return this.getEnrollmentHistoryTimeseriesWhere(buildQuery(input));
+  }
+
+  async getEnrollmentHistory(
+    input: EnrollmentHistoryServiceInput,
+  ): Promise<z.infer<typeof enrollmentHistorySchema>[]> {
+    const sections = await this.getEnrollmentHistoryTimeseries(input);
+    return sections.map(toHistoryArrays);
+  }
+
+  async getEnrollmentHistoryByCourses(
+    courseIds: string[],
+  ): Promise<z.infer<typeof enrollmentHistorySchema>[]> {
+    const sections = await this.getEnrollmentHistoryTimeseriesWhere(
+      inArray(websocCourse.courseId, courseIds),
+    );
+    return sections.map(toHistoryArrays);
+  }
+
+  async getEnrollmentHistoryBySections(
+    sectionIds: string[],
+  ): Promise<z.infer<typeof enrollmentHistorySchema>[]> {
+    const sections = await this.getEnrollmentHistoryTimeseriesWhere(
+      inArray(websocSection.id, sectionIds),
+    );
+    return sections.map(toHistoryArrays);
+  }
+
+  async getEnrollmentHistoryTimeseriesByCursor(
+    input: EnrollmentHistoryByCursorServiceInput,
+  ): Promise<{
+    items: z.infer<typeof enrollmentHistoryTimeseriesSchema>[];
+    nextCursor: string | null;
+  }> {
+    // sections may match the filters more than once, so the page is determined before the data is retrieved;
+    // only sections with enrollment history are included, so that pages are not left partially empty
+    const sectionKeys = await this.db
+      .select({
+        id: websocSection.id,
+        year: websocSection.year,
+        quarter: websocSection.quarter,
+        sectionCode: websocSection.sectionCode,
+      })
+      .from(websocCourse)
+      .innerJoin(websocSection, eq(websocCourse.id, websocSection.courseId))
+      .leftJoin(
+        websocSectionToInstructor,
+        eq(websocSection.id, websocSectionToInstructor.sectionId),
+      )
+      .leftJoin(
+        websocInstructor,
+        eq(websocSectionToInstructor.instructorName, websocInstructor.name),
+      )
+      .where(
+        and(
+          buildQuery(input),
+          exists(
+            this.db
+              .select({ sectionId: websocSectionEnrollment.sectionId })
+              .from(websocSectionEnrollment)
+              .where(eq(websocSectionEnrollment.sectionId, websocSection.id)),
+          ),
+          input.cursor && sectionAtOrAfter(input.cursor),
+        ),
+      )
+      .groupBy(websocSection.id)
+      .orderBy(...sectionOrder)
+      .limit(input.take + 1);
+
+    const pageSectionIds = sectionKeys.slice(0, input.take).map((section) => section.id);
+    const items = pageSectionIds.length
+      ? await this.getEnrollmentHistoryTimeseriesWhere(inArray(websocSection.id, pageSectionIds))
+      : [];
+
+    const nextCursor =
+      input.take === 0
+        ? null
+        : sectionKeys.length > input.take
+          ? toSectionCursor(sectionKeys[input.take])
+          : null;
+
+    return {
+      items,
+      nextCursor,
+    };
+  }
+
+  async getEnrollmentHistoryByCursor(input: EnrollmentHistoryByCursorServiceInput): Promise<{
+    items: z.infer<typeof enrollmentHistorySchema>[];
+    nextCursor: string | null;
+  }> {
+    const { items, nextCursor } = await this.getEnrollmentHistoryTimeseriesByCursor(input);
+    return { items: items.map(toHistoryArrays), nextCursor };
+  }
+
+  /**
+   * For each of the given prior offerings, return the number of days between the first
+   * recorded date of its enrollment history and the first date on which it became full.
+   */
+  private async getPriorFillOffsets(histories: EnrollmentHistory[]) {
+    const offsets = new Map<string, number[]>();
+    const priorOfferingCounts = new Map<string, number>();
+    if (!histories.length) return { offsets, priorOfferingCounts };
+    const rows = await this.db
+      .select({
+        sectionId: websocSection.id,
+        department: websocCourse.deptCode,
+        courseNumber: websocCourse.courseNumber,
+        quarter: websocSection.quarter,
+        sectionType: websocSection.sectionType,
+        sectionNum: websocSection.sectionNum,
+        createdAt: websocSectionEnrollment.createdAt,
+        status: websocSectionEnrollment.status,
+      })
+      .from(websocSectionEnrollment)
+      .innerJoin(websocSection, eq(websocSection.id, websocSectionEnrollment.sectionId))
+      .innerJoin(websocCourse, eq(websocCourse.id, websocSection.courseId))
+      .where(
+        or(
+          ...histories.map((history) =>
+            and(
+              eq(websocCourse.deptCode, history.department),
+              eq(websocCourse.courseNumber, history.courseNumber),
+              eq(websocSection.quarter, history.quarter),
+              eq(websocSection.sectionType, history.sectionType),
+              eq(websocSection.sectionNum, history.sectionNum),
+              lt(websocSection.year, history.year),
+            ),
+          ),
+        ),
+      )
+      .orderBy(websocSectionEnrollment.createdAt);
+    const priorSections = new Map<
+      string,
+      { key: string; firstDate: string; firstFullDate: string | null }
+    >();
+    for (const row of rows) {
+      const date = row.createdAt.toISOString().split("T")[0];
+      const section = priorSections.get(row.sectionId);
+      if (!section) {
+        priorSections.set(row.sectionId, {
+          key: offeringKeyOf(row),
+          firstDate: date,
+          firstFullDate: isFullStatus(row.status) ? date : null,
+        });
+      } else if (!section.firstFullDate && isFullStatus(row.status)) {
+        section.firstFullDate = date;
+      }
+    }
+    for (const { key, firstDate, firstFullDate } of priorSections.values()) {
+      priorOfferingCounts.set(key, (priorOfferingCounts.get(key) ?? 0) + 1);
+      if (firstFullDate) {
+        offsets.set(key, [...(offsets.get(key) ?? []), daysBetween(firstDate, firstFullDate)]);
+      }
+    }
+    return { offsets, priorOfferingCounts };
+  }
+
+  async getEnrollmentAnalytics(
+    histories: EnrollmentHistory[],
+  ): Promise<z.infer<typeof enrollmentAnalyticsSchema>[]> {
+    const { offsets, priorOfferingCounts } = await this.getPriorFillOffsets(
+      histories.filter((history) => history.statusHistory.at(-1) === "OPEN"),
+    );
+    return histories.map((history) => {
+      const enrollmentDeltas = history.dates.slice(1).map((date, i) => {
+        const [prevEnrolled, enrolled] = history.totalEnrolledHistory
+          .slice(i, i + 2)
+          .map(parseCount);
+        const [prevWaitlist, waitlist] = history.waitlistHistory.slice(i, i + 2).map(parseCount);
+        return {
+          date,
+          totalEnrolledDelta:
+            enrolled !== null && prevEnrolled !== null ? enrolled - prevEnrolled : null,
+          waitlistDelta:
+            waitlist !== null && prevWaitlist !== null ? waitlist - prevWaitlist : null,
+        };
+      });
+      const firstFullIndex = history.statusHistory.findIndex(isFullStatus);
+      const firstFullDate = firstFullIndex === -1 ? null : history.dates[firstFullIndex];
+      const key = offeringKeyOf(history);
+      const priorOfferingCount = priorOfferingCounts.get(key) ?? 0;
+      if (history.statusHistory.at(-1) !== "OPEN" || !history.dates.length) {
+        return { enrollmentDeltas, firstFullDate, projectedFillDate: null, priorOfferingCount };
+      }
+      // Only prior offerings which were still open at this point in their enrollment period
+      // are relevant to when this section will fill.
+      const elapsed = daysBetween(history.dates[0], history.dates[history.dates.length - 1]);
+      const candidates = (offsets.get(key) ?? [])
+        .filter((offset) => offset > elapsed)
+        .sort((a, b) => a - b);
+      const projectedFillDate = candidates.length
+        ? addDays(history.dates[0], candidates[Math.floor(candidates.length / 2)])
+        : null;
+      return { enrollmentDeltas, firstFullDate, projectedFillDate, priorOfferingCount };
+    });
+  }
+
+  async getEnrollmentHistoryAnalytics(input: EnrollmentHistoryServiceInput) {
+    const histories = await this.getEnrollmentHistory(input);
+    const analytics = await this.getEnrollmentAnalytics(histories);
+    return histories.map(
+      ({ year, quarter, sectionCode, department, courseNumber, sectionType, sectionNum }, i) => ({
+        year,
+        quarter,
+        sectionCode,
+        department,
+        courseNumber,
+        sectionType,
+        sectionNum,
+        analytics: analytics[i],
+      }),
+    );
+  }
 }
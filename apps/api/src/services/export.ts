@@ -0,0 +1,162 @@
+import {
+  type coursesExportQuerySchema,
+  type enrollmentHistoryExportQuerySchema,
+  type gradesExportQuerySchema,
+  type instructorsExportQuerySchema,
+  sectionCursorSchema,
+  type websocSectionsExportQuerySchema,
+} from "$schema";
+import type { database } from "@packages/db";
+import type { z } from "zod";
+import { CoursesService } from "./courses.ts";
+import { toCSVField } from "./csv.ts";
+import { EnrollmentHistoryService } from "./enrollment-history.ts";
+import { GradesService } from "./grades.ts";
+import { InstructorsService } from "./instructors.ts";
+import { WebsocService } from "./websoc.ts";
+
+type ExportFormat = "csv" | "ndjson";
+
+type ExportRow = Record<string, unknown>;
+
+/**
+ * The number of rows retrieved from the database at a time.
+ */
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Retrieves every page of a dataset in turn, using the given function which retrieves the page at a cursor.
+ */
+async function* paginate<T>(
+  getPage: (cursor: string | undefined) => Promise<{ items: T[]; nextCursor: string | null }>,
+) {
+  let cursor: string | undefined;
+  do {
+    const { items, nextCursor } = await getPage(cursor);
+    yield items;
+    cursor = nextCursor ?? undefined;
+  } while (cursor);
+}
+
+/**
+ * Encodes each page of rows in the given format as it is retrieved, so that the dataset does not need
+ * to be held in memory. In CSV, the columns are those of the first row.
+ */
+export function toExportStream(pages: AsyncIterable<ExportRow[]>, format: ExportFormat) {
+  const encoder = new TextEncoder();
+  const iterator = pages[Symbol.asyncIterator]();
+  const newline = format === "csv" ? "\r\n" : "\n";
+  let columns: string[] | undefined;
+  const toLines = (rows: ExportRow[]) => {
+    if (format === "ndjson") return rows.map((row) => JSON.stringify(row));
+    const lines = [];
+    for (const row of rows) {
+      if (!columns) {
+        columns = Object.keys(row);
+        lines.push(columns.map(toCSVField).join(","));
+      }
+      lines.push(columns.map((column) => toCSVField(row[column])).join(","));
+    }
+    return lines;
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // empty pages are skipped, since the stream does not pull again until something is enqueued
+      for (;;) {
+        const { done, value: rows } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const lines = toLines(rows);
+        if (lines.length) {
+          controller.enqueue(encoder.encode(lines.map((line) => `${line}${newline}`).join("")));
+          return;
+        }
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+export class ExportService {
+  constructor(private readonly db: ReturnType<typeof database>) {}
+
+  exportGrades(input: z.infer<typeof gradesExportQuerySchema>) {
+    const service = new GradesService(this.db);
+    return paginate(async (cursor) =>
+      service.getRawGradesByCursor({
+        ...input,
+        cursor: cursor ? sectionCursorSchema.parse(cursor) : undefined,
+        take: EXPORT_PAGE_SIZE,
+      }),
+    );
+  }
+
+  exportCourses(input: z.infer<typeof coursesExportQuerySchema>) {
+    const service = new CoursesService(this.db);
+    return paginate(async (cursor) =>
+      service.getCoursesByCursor({ ...input, cursor, take: EXPORT_PAGE_SIZE }),
+    );
+  }
+
+  exportInstructors(input: z.infer<typeof instructorsExportQuerySchema>) {
+    const service = new InstructorsService(this.db);
+    return paginate(async (cursor) =>
+      service.getInstructorsByCursor({ ...input, cursor, take: EXPORT_PAGE_SIZE }),
+    );
+  }
+
+  /**
+   * Sections are exported along with the codes and titles of their courses, instead of nested within them.
+   */
+  async *exportWebsocSections(input: z.infer<typeof websocSectionsExportQuerySchema>) {
+    const service = new WebsocService(this.db);
+    const pages = paginate(async (cursor) =>
+      service.getWebsocResponseByCursor({
+        ...input,
+        cursor: cursor ? sectionCursorSchema.parse(cursor) : undefined,
+        take: EXPORT_PAGE_SIZE,
+      }),
+    );
+    for await (const schools of pages) {
+      yield schools.flatMap(({ departments }) =>
+        departments.flatMap(({ courses }) =>
+          courses.flatMap(({ sections, deptCode, courseNumber, courseTitle }) =>
+            sections.map((section) => ({
+              year: input.year,
+              quarter: input.quarter,
+              deptCode,
+              courseNumber,
+              courseTitle,
+              ...section,
+            })),
+          ),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Enrollment history is exported as one row per snapshot, instead of one row per section.
+   * Counts which were not recorded in a snapshot are exported as null, i.e. as empty fields in CSV.
+   */
+  async *exportEnrollmentHistory(input: z.infer<typeof enrollmentHistoryExportQuerySchema>) {
+    const service = new EnrollmentHistoryService(this.db);
+    const pages = paginate(async (cursor) =>
+      service.getEnrollmentHistoryTimeseriesByCursor({
+        ...input,
+        format: "timeseries",
+        cursor: cursor ? sectionCursorSchema.parse(cursor) : undefined,
+        take: EXPORT_PAGE_SIZE,
+      }),
+    );
+    for await (const histories of pages) {
+      yield histories.flatMap(({ history, ...section }) =>
+        history.map((snapshot) => ({ ...section, ...snapshot })),
+      );
+    }
+  }
+}
@@ -1,6 +1,13 @@
-import type { aggregateGradesSchema, gradesQuerySchema, rawGradeSchema } from "$schema";
+import type {
+  aggregateGradesSchema,
+  gradesForecastDistributionSchema,
+  gradesForecastQuerySchema,
+  gradesQuerySchema,
+  rawGradeSchema,
+  rawGradesByCursorQuerySchema,
+} from "$schema";
 import type { database } from "@packages/db";
-import { and, avg, eq, gt, inArray, or, sql, sum } from "@packages/db/drizzle";
+import { type SQL, and, avg, count, eq, gt, inArray, ne, or, sql, sum } from "@packages/db/drizzle";
 import {
   websocCourse,
   websocSection,
@@ -9,10 +16,35 @@ import {
 } from "@packages/db/schema";
 import type { z } from "zod";
 
-import { buildDivisionQuery, buildGEQuery } from "./util.ts";
+import {
+  buildDivisionQuery,
+  buildGEQuery,
+  sectionAtOrAfter,
+  sectionOrder,
+  toSectionCursor,
+} from "./util.ts";
 
 type GradesServiceInput = z.infer<typeof gradesQuerySchema>;
 
+type RawGradesByCursorServiceInput = z.infer<typeof rawGradesByCursorQuerySchema>;
+
+type GradesForecastServiceInput = z.infer<typeof gradesForecastQuerySchema>;
+
+type GradesForecastDistribution = z.infer<typeof gradesForecastDistributionSchema>;
+
+const emptyForecastDistribution: GradesForecastDistribution = {
+  sectionCount: 0,
+  gradeACount: 0,
+  gradeBCount: 0,
+  gradeCCount: 0,
+  gradeDCount: 0,
+  gradeFCount: 0,
+  gradePCount: 0,
+  gradeNPCount: 0,
+  gradeWCount: 0,
+  averageGPA: null,
+};
+
 function buildQuery(input: GradesServiceInput) {
   const conditions = [];
   if (input.year) {
@@ -52,7 +84,7 @@ function buildQuery(input: GradesServiceInput) {
 export class GradesService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
-  async getRawGrades(input: GradesServiceInput) {
+  private async getRawGradesWhere(where: SQL | undefined) {
     return this.db
       .select({
         id: websocSection.id,
@@ -90,7 +122,8 @@ export class GradesService {
         websocSectionToInstructor,
         eq(websocSection.id, websocSectionToInstructor.sectionId),
       )
-      .where(buildQuery(input))
+      .where(where)
+      .orderBy(...sectionOrder)
       .then((rows) =>
         rows
           .reduce(
@@ -123,6 +156,61 @@ export class GradesService {
       );
   }
 
+  async getRawGrades(input: GradesServiceInput) {
+    return this.getRawGradesWhere(buildQuery(input));
+  }
+
+  async getRawGradesByCourses(courseIds: string[]) {
+    return this.getRawGradesWhere(inArray(websocCourse.courseId, courseIds));
+  }
+
+  async getRawGradesByInstructors(instructorNames: string[]) {
+    return this.getRawGradesWhere(
+      inArray(websocSectionToInstructor.instructorName, instructorNames),
+    );
+  }
+
+  async getRawGradesByCursor(
+    input: RawGradesByCursorServiceInput,
+  ): Promise<{ items: z.infer<typeof rawGradeSchema>[]; nextCursor: string | null }> {
+    // sections may match the filters more than once, so the page is determined before the data is retrieved
+    const sectionKeys = await this.db
+      .select({
+        id: websocSection.id,
+        year: websocSection.year,
+        quarter: websocSection.quarter,
+        sectionCode: websocSection.sectionCode,
+      })
+      .from(websocCourse)
+      .innerJoin(websocSection, eq(websocSection.courseId, websocCourse.id))
+      .innerJoin(websocSectionGrade, eq(websocSectionGrade.sectionId, websocSection.id))
+      .leftJoin(
+        websocSectionToInstructor,
+        eq(websocSection.id, websocSectionToInstructor.sectionId),
+      )
+      .where(and(buildQuery(input), input.cursor && sectionAtOrAfter(input.cursor)))
+      .groupBy(websocSection.id)
+      .orderBy(...sectionOrder)
+      .limit(input.take + 1);
+
+    const pageSectionIds = sectionKeys.slice(0, input.take).map((section) => section.id);
+    const items = pageSectionIds.length
+      ? await this.getRawGradesWhere(inArray(websocSection.id, pageSectionIds))
+      : [];
+
+    const nextCursor =
+      input.take === 0
+        ? null
+        : sectionKeys.length > input.take
+          ? toSectionCursor(sectionKeys[input.take])
+          : null;
+
+    return {
+      items,
+      nextCursor,
+    };
+  }
+
   async getGradesOptions(input: GradesServiceInput) {
     const res = await this.db
       .select({
@@ -314,4 +402,88 @@ export class GradesService {
       )
       .where(buildQuery(input));
   }
+
+  private async getForecastDistribution(condition: SQL | undefined) {
+    const [distribution] = await this.db
+      .select({
+        sectionCount: count(websocSectionGrade.sectionId),
+        gradeACount: sum(websocSectionGrade.gradeACount).mapWith(Number),
+        gradeBCount: sum(websocSectionGrade.gradeBCount).mapWith(Number),
+        gradeCCount: sum(websocSectionGrade.gradeCCount).mapWith(Number),
+        gradeDCount: sum(websocSectionGrade.gradeDCount).mapWith(Number),
+        gradeFCount: sum(websocSectionGrade.gradeFCount).mapWith(Number),
+        gradePCount: sum(websocSectionGrade.gradePCount).mapWith(Number),
+        gradeNPCount: sum(websocSectionGrade.gradeNPCount).mapWith(Number),
+        gradeWCount: sum(websocSectionGrade.gradeWCount).mapWith(Number),
+        averageGPA: avg(websocSectionGrade.averageGPA).mapWith(Number),
+      })
+      .from(websocCourse)
+      .innerJoin(websocSection, eq(websocSection.courseId, websocCourse.id))
+      .innerJoin(websocSectionGrade, eq(websocSectionGrade.sectionId, websocSection.id))
+      .where(condition);
+    return distribution?.sectionCount ? distribution : emptyForecastDistribution;
+  }
+
+  async getGradesForecast(input: GradesForecastServiceInput) {
+    const [section] = await this.db
+      .select({
+        id: websocSection.id,
+        department: websocCourse.deptCode,
+        courseNumber: websocCourse.courseNumber,
+      })
+      .from(websocSection)
+      .innerJoin(websocCourse, eq(websocCourse.id, websocSection.courseId))
+      .where(
+        and(
+          eq(websocSection.year, input.year),
+          eq(websocSection.quarter, input.quarter),
+          eq(websocSection.sectionCode, Number.parseInt(input.sectionCode, 10)),
+        ),
+      );
+    if (!section) return null;
+    const instructors = await this.db
+      .select({ name: websocSectionToInstructor.instructorName })
+      .from(websocSectionToInstructor)
+      .where(
+        and(
+          eq(websocSectionToInstructor.sectionId, section.id),
+          ne(websocSectionToInstructor.instructorName, "STAFF"),
+        ),
+      )
+      .then((rows) => rows.map((row) => row.name));
+    const sameCourse = and(
+      eq(websocCourse.deptCode, section.department),
+      eq(websocCourse.courseNumber, section.courseNumber),
+    );
+    // Sections with multiple matching instructors must only be counted once.
+    const taughtBySameInstructors = inArray(
+      websocSection.id,
+      this.db
+        .selectDistinct({ sectionId: websocSectionToInstructor.sectionId })
+        .from(websocSectionToInstructor)
+        .where(inArray(websocSectionToInstructor.instructorName, instructors)),
+    );
+    const [offering, course, instructorsDistribution] = await Promise.all([
+      instructors.length
+        ? this.getForecastDistribution(and(sameCourse, taughtBySameInstructors))
+        : emptyForecastDistribution,
+      this.getForecastDistribution(sameCourse),
+      instructors.length
+        ? this.getForecastDistribution(taughtBySameInstructors)
+        : emptyForecastDistribution,
+    ]);
+    return {
+      section: {
+        year: input.year,
+        quarter: input.quarter,
+        sectionCode: input.sectionCode,
+        department: section.department,
+        courseNumber: section.courseNumber,
+        instructors,
+      },
+      offering,
+      course,
+      instructors: instructorsDistribution,
+    };
+  }
 }
@@ -0,0 +1,116 @@
+import type { HourMinute } from "@packages/db/schema";
+
+export type ICalendarDate = {
+  /**
+   * The date of this timestamp, in YYYY-MM-DD format.
+   */
+  date: string;
+  /**
+   * The time of this timestamp in UCI's local time, or undefined if this timestamp is a whole day.
+   */
+  time?: HourMinute;
+};
+
+export type ICalendarEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: ICalendarDate;
+  /**
+   * The end of this event. For whole-day events, this date is exclusive.
+   */
+  end: ICalendarDate;
+  /**
+   * If present, the value of the RRULE property of this event.
+   */
+  recurrenceRule?: string;
+};
+
+const TIMEZONE_ID = "America/Los_Angeles";
+
+const timezoneDefinition = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE_ID}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0800",
+  "TZOFFSETTO:-0700",
+  "TZNAME:PDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0800",
+  "TZNAME:PST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+const escapeText = (text: string) =>
+  text.replaceAll(/([\\;,])/g, "\\$1").replaceAll(/\r?\n/g, "\\n");
+
+/**
+ * Lines longer than 75 octets must be folded onto continuation lines beginning with a space.
+ */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = lines.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+const formatDate = (date: string) => date.replaceAll("-", "");
+
+const formatTime = ({ hour, minute }: HourMinute) =>
+  `${hour.toString(10).padStart(2, "0")}${minute.toString(10).padStart(2, "0")}00`;
+
+const formatDateProperty = (name: string, { date, time }: ICalendarDate) =>
+  time
+    ? `${name};TZID=${TIMEZONE_ID}:${formatDate(date)}T${formatTime(time)}`
+    : `${name};VALUE=DATE:${formatDate(date)}`;
+
+const formatTimestamp = (date: Date) =>
+  `${date.toISOString().replaceAll(/[-:]/g, "").split(".")[0]}Z`;
+
+/**
+ * Serializes a list of events as an RFC 5545 iCalendar object.
+ */
+export function buildICalendar(name: string, events: ICalendarEvent[]) {
+  const timestamp = formatTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ICSSC//Anteater API//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE_ID}`,
+    ...timezoneDefinition,
+    ...events.flatMap((event) => [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${timestamp}`,
+      formatDateProperty("DTSTART", event.start),
+      formatDateProperty("DTEND", event.end),
+      ...(event.recurrenceRule ? [`RRULE:${event.recurrenceRule}`] : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -1,11 +1,15 @@
 export * from "./ap-exams";
 export * from "./calendar";
 export * from "./courses";
+export * from "./csv";
 export * from "./enrollment-history";
+export * from "./export";
 export * from "./grades";
 export * from "./instructors";
+export * from "./meta";
 export * from "./programs";
 export * from "./search";
+export * from "./usage";
 export * from "./websoc";
 export * from "./week";
 export * from "./study-rooms";
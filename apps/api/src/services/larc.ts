@@ -1,6 +1,11 @@
-import type { larcQuerySchema, larcResponseSchema, larcSectionSchema } from "$schema";
+import type {
+  larcByCursorQuerySchema,
+  larcQuerySchema,
+  larcResponseSchema,
+  larcSectionSchema,
+} from "$schema";
 import type { database } from "@packages/db";
-import { eq, getTableColumns, gte, ilike, lte } from "@packages/db/drizzle";
+import { asc, eq, getTableColumns, gte, ilike, lte, sql } from "@packages/db/drizzle";
 import { and } from "@packages/db/drizzle";
 import { larcSection, websocCourse } from "@packages/db/schema";
 import type { z } from "zod";
@@ -8,6 +13,55 @@ import { buildDaysOfWeekQuery, buildMultiCourseNumberQuery } from "./util.ts";
 
 type LarcSessionServiceInput = z.infer<typeof larcQuerySchema>;
 
+type LarcSessionByCursorServiceInput = z.infer<typeof larcByCursorQuerySchema>;
+
+type LarcSectionCursor = NonNullable<LarcSessionByCursorServiceInput["cursor"]>;
+
+/**
+ * The order in which the route which paginates LARC sections returns them. The LARC scraper replaces every
+ * course's sections on each run, so sections are ordered by what they are rather than by their IDs.
+ */
+const larcSectionOrder = [
+  asc(websocCourse.year),
+  asc(websocCourse.quarter),
+  asc(websocCourse.deptCode),
+  asc(websocCourse.courseNumber),
+  asc(larcSection.startTime),
+  asc(larcSection.daysString),
+  asc(larcSection.instructor),
+  asc(larcSection.building),
+];
+
+/**
+ * Returns the condition that a section is at or after the one the given cursor points to, in `larcSectionOrder`.
+ */
+const larcSectionAtOrAfter = (cursor: LarcSectionCursor) =>
+  sql`(${websocCourse.year}, ${websocCourse.quarter}, ${websocCourse.deptCode}, ${websocCourse.courseNumber}, ${larcSection.startTime}, ${larcSection.daysString}, ${larcSection.instructor}, ${larcSection.building}) >= (${cursor.year}, ${cursor.quarter}, ${cursor.deptCode}, ${cursor.courseNumber}, ${cursor.startTime}::timestamp, ${cursor.daysString}, ${cursor.instructor}, ${cursor.building})`;
+
+/**
+ * Returns the cursor which points to the given section.
+ */
+const toLarcSectionCursor = ({ course, section }: Row) =>
+  btoa(
+    String.fromCharCode(
+      ...new TextEncoder().encode(
+        JSON.stringify([
+          course.year,
+          course.quarter,
+          course.deptCode,
+          course.courseNumber,
+          section.startTime.toISOString(),
+          section.daysString,
+          section.instructor,
+          section.building,
+        ]),
+      ),
+    ),
+  )
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+
 function buildQuery(input: LarcSessionServiceInput) {
   const conditions = [];
 
@@ -98,4 +152,32 @@ export class LarcService {
 
     return transformRows(rows);
   }
+
+  async getLarcSectionsByCursor(input: LarcSessionByCursorServiceInput): Promise<{
+    items: z.infer<typeof larcResponseSchema>["courses"];
+    nextCursor: string | null;
+  }> {
+    const rows = await this.db
+      .select({
+        course: getTableColumns(websocCourse),
+        section: getTableColumns(larcSection),
+      })
+      .from(larcSection)
+      .innerJoin(websocCourse, eq(websocCourse.id, larcSection.courseId))
+      .where(and(buildQuery(input), input.cursor && larcSectionAtOrAfter(input.cursor)))
+      .orderBy(...larcSectionOrder)
+      .limit(input.take + 1);
+
+    const nextCursor =
+      input.take === 0
+        ? null
+        : rows.length > input.take
+          ? toLarcSectionCursor(rows[input.take])
+          : null;
+
+    return {
+      items: transformRows(rows.slice(0, input.take)).courses,
+      nextCursor,
+    };
+  }
 }
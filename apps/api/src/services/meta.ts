@@ -0,0 +1,36 @@
+import type { database } from "@packages/db";
+import { asc, desc, eq } from "@packages/db/drizzle";
+import { calendarTerm, dataVersion, websocMeta } from "@packages/db/schema";
+
+export class MetaService {
+  constructor(private readonly db: ReturnType<typeof database>) {}
+
+  async getDataVersions() {
+    return this.db.select().from(dataVersion);
+  }
+
+  async getFreshness() {
+    const pipelines = await this.db.select().from(dataVersion).orderBy(asc(dataVersion.domain));
+    const terms = await this.db
+      .select({
+        year: calendarTerm.year,
+        quarter: calendarTerm.quarter,
+        lastScraped: websocMeta.lastScraped,
+        lastDeptScraped: websocMeta.lastDeptScraped,
+      })
+      .from(websocMeta)
+      .innerJoin(calendarTerm, eq(calendarTerm.id, websocMeta.name))
+      .orderBy(desc(calendarTerm.instructionStart));
+    return {
+      pipelines: pipelines.map(({ updatedAt, ...rest }) => ({
+        ...rest,
+        updatedAt: updatedAt.toISOString(),
+      })),
+      terms: terms.map(({ lastScraped, lastDeptScraped, ...rest }) => ({
+        ...rest,
+        lastScraped: lastScraped.toISOString(),
+        complete: lastDeptScraped === null,
+      })),
+    };
+  }
+}
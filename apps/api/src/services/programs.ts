@@ -3,23 +3,113 @@ import type {
   majorsQuerySchema,
   minorRequirementsQuerySchema,
   minorsQuerySchema,
+  programAuditBodySchema,
+  programAuditRequirementSchema,
+  programAuditResponseSchema,
+  programAuditStatuses,
+  programsByCourseQuerySchema,
+  programsByCourseResponseSchema,
   specializationRequirementsQuerySchema,
   specializationsQuerySchema,
   ugradRequirementsQuerySchema,
 } from "$schema";
 import type { database } from "@packages/db";
-import { eq, sql } from "@packages/db/drizzle";
+import { asc, eq, inArray, sql } from "@packages/db/drizzle";
+import type { DegreeWorksRequirement } from "@packages/db/schema";
 import {
   collegeRequirement,
   degree,
   major,
   minor,
+  programCourseView,
   schoolRequirement,
   specialization,
 } from "@packages/db/schema";
 import { orNull } from "@packages/stdlib";
 import type { z } from "zod";
 
+type ProgramAuditRequirement = z.infer<typeof programAuditRequirementSchema>;
+
+type ProgramAuditStatus = (typeof programAuditStatuses)[number];
+
+type CompletedCourses = Map<string, number>;
+
+const normalizeCourseId = (courseId: string) => courseId.replaceAll(" ", "").toUpperCase();
+
+const getAuditStatus = (remaining: number, progress: boolean): ProgramAuditStatus =>
+  remaining <= 0 ? "satisfied" : progress ? "partial" : "unsatisfied";
+
+/**
+ * Annotates a requirement with the courses applied towards it and how much of it remains.
+ * Requirements are audited independently of one another, so a course may be applied to more than one.
+ */
+function auditRequirement(
+  requirement: DegreeWorksRequirement,
+  completedCourses: CompletedCourses,
+  completedMarkers: Set<string>,
+): ProgramAuditRequirement {
+  switch (requirement.requirementType) {
+    case "Course": {
+      const coursesApplied = requirement.courses
+        .filter((course) => completedCourses.has(course))
+        .slice(0, requirement.courseCount);
+      const remaining = Math.max(requirement.courseCount - coursesApplied.length, 0);
+      return {
+        ...requirement,
+        status: getAuditStatus(remaining, coursesApplied.length > 0),
+        coursesApplied,
+        remaining,
+      };
+    }
+    case "Unit": {
+      const coursesApplied: string[] = [];
+      let units = 0;
+      for (const course of requirement.courses) {
+        if (units >= requirement.unitCount) break;
+        const courseUnits = completedCourses.get(course);
+        if (courseUnits === undefined) continue;
+        coursesApplied.push(course);
+        units += courseUnits;
+      }
+      const remaining = Math.max(requirement.unitCount - units, 0);
+      return {
+        ...requirement,
+        status: getAuditStatus(remaining, coursesApplied.length > 0),
+        coursesApplied,
+        remaining,
+      };
+    }
+    case "Group": {
+      const requirements = requirement.requirements.map((x) =>
+        auditRequirement(x, completedCourses, completedMarkers),
+      );
+      const remaining = Math.max(
+        requirement.requirementCount - requirements.filter((x) => x.status === "satisfied").length,
+        0,
+      );
+      return {
+        ...requirement,
+        requirements,
+        status: getAuditStatus(
+          remaining,
+          requirements.some((x) => x.status !== "unsatisfied"),
+        ),
+        coursesApplied: Array.from(new Set(requirements.flatMap((x) => x.coursesApplied))),
+        remaining,
+      };
+    }
+    case "Marker": {
+      const remaining = completedMarkers.has(requirement.label) ? 0 : 1;
+      return {
+        ...requirement,
+        status: getAuditStatus(remaining, false),
+        coursesApplied: [],
+        remaining,
+      };
+    }
+  }
+}
+
 export class ProgramsService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
@@ -143,4 +233,115 @@ export class ProgramsService {
 
     return orNull(got);
   }
+
+  async getProgramAudit(
+    input: z.infer<typeof programAuditBodySchema>,
+  ): Promise<z.infer<typeof programAuditResponseSchema> | null> {
+    const program = await this.getProgramRequirements({
+      programType: input.programType,
+      query: { programId: input.programId },
+    });
+    if (!program) {
+      return null;
+    }
+    const completedCourses: CompletedCourses = new Map(
+      input.completedCourses.map(({ courseId, units }) => [normalizeCourseId(courseId), units]),
+    );
+    const completedMarkers = new Set(input.completedMarkers);
+    const audit = (requirements: DegreeWorksRequirement[]) =>
+      requirements.map((x) => auditRequirement(x, completedCourses, completedMarkers));
+
+    const [majorInfo] =
+      input.programType === "major"
+        ? await this.db
+            .select({
+              division: degree.division,
+              schoolRequirements: {
+                name: collegeRequirement.name,
+                requirements: collegeRequirement.requirements,
+              },
+            })
+            .from(major)
+            .innerJoin(degree, eq(major.degreeId, degree.id))
+            .leftJoin(collegeRequirement, eq(major.collegeRequirement, collegeRequirement.id))
+            .where(eq(major.id, input.programId))
+        : [];
+    const schoolRequirements = majorInfo?.schoolRequirements
+      ? {
+          name: majorInfo.schoolRequirements.name,
+          requirements: audit(majorInfo.schoolRequirements.requirements),
+        }
+      : null;
+    const ugradRequirements = [];
+    if (majorInfo?.division === "Undergraduate") {
+      for (const id of ["UC", "GE"] as const) {
+        const block = await this.getUgradRequirements({ id });
+        if (block) {
+          ugradRequirements.push({ id, requirements: audit(block.requirements) });
+        }
+      }
+    }
+
+    const requirements = audit(program.requirements);
+    const statuses = [
+      ...requirements,
+      ...(schoolRequirements?.requirements ?? []),
+      ...ugradRequirements.flatMap((x) => x.requirements),
+    ].map((x) => x.status);
+    return {
+      id: program.id,
+      name: program.name,
+      status: statuses.every((x) => x === "satisfied")
+        ? "satisfied"
+        : statuses.some((x) => x !== "unsatisfied")
+          ? "partial"
+          : "unsatisfied",
+      requirements,
+      schoolRequirements,
+      ugradRequirements,
+    };
+  }
+
+  async getProgramsByCourse(
+    query: z.infer<typeof programsByCourseQuerySchema>,
+  ): Promise<z.infer<typeof programsByCourseResponseSchema>> {
+    const programs = await this.getProgramsByCourses([query.courseId]);
+    return programs.map(({ courseId: _, ...program }) => program);
+  }
+
+  async getProgramsByCourses(
+    courseIds: string[],
+  ): Promise<(z.infer<typeof programsByCourseResponseSchema>[number] & { courseId: string })[]> {
+    const rows = await this.db
+      .select()
+      .from(programCourseView)
+      .where(inArray(programCourseView.courseId, courseIds.map(normalizeCourseId)))
+      .orderBy(
+        asc(programCourseView.courseId),
+        asc(programCourseView.programType),
+        asc(programCourseView.programId),
+      );
+    return rows
+      .reduce((acc, row) => {
+        const key = `${row.courseId} ${row.programType} ${row.programId}`;
+        const program = acc.get(key);
+        if (program) {
+          program.requirementLabels.push(row.requirementLabel);
+        } else {
+          acc.set(key, {
+            courseId: row.courseId,
+            programType: row.programType,
+            id: row.programId,
+            name: row.programName,
+            requirementLabels: [row.requirementLabel],
+          });
+        }
+        return acc;
+      }, new Map<
+        string,
+        z.infer<typeof programsByCourseResponseSchema>[number] & { courseId: string }
+      >())
+      .values()
+      .toArray();
+  }
 }
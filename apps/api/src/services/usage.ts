@@ -0,0 +1,55 @@
+import type { usageQuerySchema } from "$schema";
+import type { database } from "@packages/db";
+import { and, asc, eq, gte, max, ne, sql } from "@packages/db/drizzle";
+import { apiKeyUsage } from "@packages/db/schema";
+import type { z } from "zod";
+
+type UsageServiceInput = z.infer<typeof usageQuerySchema>;
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toDateString = (d: Date): string => d.toISOString().split("T")[0];
+
+/**
+ * API keys are stored as hashes so that usage records cannot be used to recover them.
+ */
+async function hashKey(key: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export class UsageService {
+  constructor(private readonly db: ReturnType<typeof database>) {}
+
+  async recordUsage(key: string, route: string) {
+    const today = new Date(`${toDateString(new Date())}T00:00:00Z`);
+    await this.db
+      .insert(apiKeyUsage)
+      .values({ keyHash: await hashKey(key), route, date: today, count: 1 })
+      .onConflictDoUpdate({
+        target: [apiKeyUsage.keyHash, apiKeyUsage.date, apiKeyUsage.route],
+        set: { count: sql`${apiKeyUsage.count} + 1`, lastUsedAt: sql`now()` },
+      });
+  }
+
+  async getUsage(key: string, input: UsageServiceInput) {
+    const today = new Date(`${toDateString(new Date())}T00:00:00Z`);
+    const since = new Date(today.getTime() - (input.days - 1) * MILLISECONDS_PER_DAY);
+    return this.db
+      .select({ date: apiKeyUsage.date, route: apiKeyUsage.route, count: apiKeyUsage.count })
+      .from(apiKeyUsage)
+      .where(and(eq(apiKeyUsage.keyHash, await hashKey(key)), gte(apiKeyUsage.date, since)))
+      .orderBy(asc(apiKeyUsage.date), asc(apiKeyUsage.route))
+      .then((rows) => rows.map((row) => ({ ...row, date: toDateString(row.date) })));
+  }
+
+  async getLastUsedAt(key: string, excludedRoute: string) {
+    const [{ lastUsedAt }] = await this.db
+      .select({ lastUsedAt: max(apiKeyUsage.lastUsedAt) })
+      .from(apiKeyUsage)
+      .where(
+        and(eq(apiKeyUsage.keyHash, await hashKey(key)), ne(apiKeyUsage.route, excludedRoute)),
+      );
+    return lastUsedAt;
+  }
+}
@@ -1,7 +1,17 @@
-import type { websocQuerySchema } from "$schema";
-import { type ColumnBaseConfig, type SQL, and, eq, gte, lte, or } from "@packages/db/drizzle";
+import type { sectionCursorSchema, websocQuerySchema } from "$schema";
+import {
+  type ColumnBaseConfig,
+  type SQL,
+  and,
+  asc,
+  eq,
+  gte,
+  lte,
+  or,
+  sql,
+} from "@packages/db/drizzle";
 import type { PgColumn } from "@packages/db/drizzle-pg";
-import { websocCourse } from "@packages/db/schema";
+import { websocCourse, websocSection } from "@packages/db/schema";
 import { isTrue } from "@packages/db/utils";
 import type { z } from "zod";
 
@@ -151,3 +161,26 @@ export function buildDaysOfWeekQuery(
 
   return conditions;
 }
+
+type SectionCursor = z.infer<typeof sectionCursorSchema>;
+
+/**
+ * The order in which routes which paginate WebSoc sections return them.
+ */
+export const sectionOrder = [
+  asc(websocSection.year),
+  asc(websocSection.quarter),
+  asc(websocSection.sectionCode),
+];
+
+/**
+ * Returns the condition that a section is at or after the one the given cursor points to, in `sectionOrder`.
+ */
+export const sectionAtOrAfter = (cursor: SectionCursor) =>
+  sql`(${websocSection.year}, ${websocSection.quarter}, ${websocSection.sectionCode}) >= (${cursor.year}, ${cursor.quarter}, ${cursor.sectionCode})`;
+
+/**
+ * Returns the cursor which points to the given section.
+ */
+export const toSectionCursor = (section: SectionCursor) =>
+  `${section.year}-${section.quarter}-${section.sectionCode.toString(10).padStart(5, "0")}`;
@@ -1,9 +1,35 @@
-import type { websocQuerySchema, websocResponseSchema, websocSectionSchema } from "$schema";
+import type {
+  websocByCursorQuerySchema,
+  websocCalendarQuerySchema,
+  websocConflictsQuerySchema,
+  websocConflictsResponseSchema,
+  websocQuerySchema,
+  websocResponseSchema,
+  websocScheduleSectionSchema,
+  websocSchedulesQuerySchema,
+  websocSchedulesResponseSchema,
+  websocSectionSchema,
+} from "$schema";
 import type { database } from "@packages/db";
 import type { SQL } from "@packages/db/drizzle";
-import { and, eq, getTableColumns, gt, gte, ilike, like, lte, ne, or } from "@packages/db/drizzle";
-import type { Term } from "@packages/db/schema";
 import {
+  and,
+  eq,
+  getTableColumns,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  like,
+  lt,
+  lte,
+  ne,
+  notInArray,
+  or,
+} from "@packages/db/drizzle";
+import type { HourMinute, Term, WebsocSectionFinalExam } from "@packages/db/schema";
+import {
+  calendarTerm,
   websocCourse,
   websocDepartment,
   websocInstructor,
@@ -17,11 +43,15 @@ import {
 import { isFalse, isTrue } from "@packages/db/utils";
 import { negativeAsNull } from "@packages/stdlib";
 import type { z } from "zod";
+import { type ICalendarEvent, buildICalendar } from "./ics.ts";
 import {
   buildDaysOfWeekQuery,
   buildDivisionQuery,
   buildGEQuery,
   buildMultiCourseNumberQuery,
+  sectionAtOrAfter,
+  sectionOrder,
+  toSectionCursor,
 } from "./util.ts";
 
 const termOrder = {
@@ -35,6 +65,14 @@ const termOrder = {
 
 type WebsocServiceInput = z.infer<typeof websocQuerySchema>;
 
+type WebsocByCursorServiceInput = z.infer<typeof websocByCursorQuerySchema>;
+
+type WebsocConflictsServiceInput = z.infer<typeof websocConflictsQuerySchema>;
+
+type WebsocSchedulesServiceInput = z.infer<typeof websocSchedulesQuerySchema>;
+
+type WebsocCalendarServiceInput = z.infer<typeof websocCalendarQuerySchema>;
+
 function buildQuery(input: WebsocServiceInput) {
   const conditions = [
     and(eq(websocSchool.year, input.year), eq(websocSchool.quarter, input.quarter)),
@@ -193,6 +231,14 @@ type Row = {
   section: typeof websocSection.$inferSelect;
 };
 
+// final selection of actual data we need to process on our end
+const rowSelection = {
+  school: getTableColumns(websocSchool),
+  department: getTableColumns(websocDepartment),
+  course: getTableColumns(websocCourse),
+  section: getTableColumns(websocSection),
+};
+
 const transformSection = (section: Row["section"]): z.infer<typeof websocSectionSchema> => {
   // as described in websoc-scraper, there are non-null values which should also be interpreted as null
   return {
@@ -295,6 +341,250 @@ function transformTerm(term: { year: string; quarter: Term }) {
   return { shortName: `${year} ${quarter}`, longName: `${year} ${longQtr}` };
 }
 
+const meetingDayColumns = [
+  ["M", "meetsMonday"],
+  ["Tu", "meetsTuesday"],
+  ["W", "meetsWednesday"],
+  ["Th", "meetsThursday"],
+  ["F", "meetsFriday"],
+  ["S", "meetsSaturday"],
+  ["Su", "meetsSunday"],
+] as const;
+
+type MeetingDay = (typeof meetingDayColumns)[number][0];
+
+/**
+ * A meeting with a confirmed time, with start and end times in minutes since midnight.
+ */
+type TimedMeeting = { days: MeetingDay[]; startTime: number; endTime: number };
+
+const toMinutes = ({ hour, minute }: HourMinute) => hour * 60 + minute;
+
+const toHourMinute = (minutes: number): HourMinute => ({
+  hour: Math.floor(minutes / 60),
+  minute: minutes % 60,
+});
+
+const toTimedMeeting = (meeting: typeof websocSectionMeeting.$inferSelect): TimedMeeting | null =>
+  meeting.timeIsTBA || !meeting.startTime || !meeting.endTime
+    ? null
+    : {
+        days: meetingDayColumns.filter(([, column]) => meeting[column]).map(([day]) => day),
+        startTime: meeting.startTime.getUTCHours() * 60 + meeting.startTime.getUTCMinutes(),
+        endTime: meeting.endTime.getUTCHours() * 60 + meeting.endTime.getUTCMinutes(),
+      };
+
+/**
+ * Returns the days and period during which both meetings take place, or `null` if they do not overlap.
+ * Meetings which merely touch (i.e. one ends exactly when the other starts) do not overlap.
+ */
+function getMeetingOverlap(a: TimedMeeting, b: TimedMeeting): TimedMeeting | null {
+  const days = a.days.filter((day) => b.days.includes(day));
+  const startTime = Math.max(a.startTime, b.startTime);
+  const endTime = Math.min(a.endTime, b.endTime);
+  return days.length && startTime < endTime ? { days, startTime, endTime } : null;
+}
+
+/**
+ * Returns the date and period during which both final exams take place, or `null` if they do not overlap
+ * or either exam is not scheduled.
+ */
+function getFinalExamOverlap(a: WebsocSectionFinalExam, b: WebsocSectionFinalExam) {
+  if (a.examStatus !== "SCHEDULED_FINAL" || b.examStatus !== "SCHEDULED_FINAL") return null;
+  if (a.month !== b.month || a.day !== b.day) return null;
+  const startTime = Math.max(toMinutes(a.startTime), toMinutes(b.startTime));
+  const endTime = Math.min(toMinutes(a.endTime), toMinutes(b.endTime));
+  return startTime < endTime ? { month: a.month, day: a.day, startTime, endTime } : null;
+}
+
+type ConflictCheckedSection = {
+  sectionCode: string;
+  finalExam: WebsocSectionFinalExam;
+  meetings: TimedMeeting[];
+  hasTBAMeeting: boolean;
+};
+
+function findConflicts(
+  sections: ConflictCheckedSection[],
+): Omit<z.infer<typeof websocConflictsResponseSchema>, "notFound"> {
+  const res: Omit<z.infer<typeof websocConflictsResponseSchema>, "notFound"> = {
+    meetingConflicts: [],
+    finalExamConflicts: [],
+    tbaMeetings: sections.filter((s) => s.hasTBAMeeting).map((s) => s.sectionCode),
+    tbaFinalExams: sections
+      .filter((s) => s.finalExam.examStatus === "TBA_FINAL")
+      .map((s) => s.sectionCode),
+  };
+  for (const [i, a] of sections.entries()) {
+    for (const b of sections.slice(i + 1)) {
+      const sectionCodes: [string, string] = [a.sectionCode, b.sectionCode];
+      for (const meetingA of a.meetings) {
+        for (const meetingB of b.meetings) {
+          const overlap = getMeetingOverlap(meetingA, meetingB);
+          if (overlap) {
+            res.meetingConflicts.push({
+              sectionCodes,
+              days: overlap.days,
+              startTime: toHourMinute(overlap.startTime),
+              endTime: toHourMinute(overlap.endTime),
+            });
+          }
+        }
+      }
+      const examOverlap = getFinalExamOverlap(a.finalExam, b.finalExam);
+      if (examOverlap) {
+        res.finalExamConflicts.push({
+          sectionCodes,
+          month: examOverlap.month,
+          day: examOverlap.day,
+          startTime: toHourMinute(examOverlap.startTime),
+          endTime: toHourMinute(examOverlap.endTime),
+        });
+      }
+    }
+  }
+  return res;
+}
+
+type SchedulableSection = z.infer<typeof websocScheduleSectionSchema> & {
+  meetings: TimedMeeting[];
+};
+
+const sectionsConflict = (a: SchedulableSection, b: SchedulableSection) =>
+  a.meetings.some((meetingA) =>
+    b.meetings.some((meetingB) => getMeetingOverlap(meetingA, meetingB)),
+  );
+
+/**
+ * WebSoc links co-sections to lectures by the letter(s) their section numbers start with,
+ * e.g. Lec A is accompanied by Dis A1 or Dis A2, but not Dis B1.
+ * Section numbers which do not start with a letter can be combined with any other section.
+ */
+const sectionGroupOf = (section: SchedulableSection) => section.sectionNum.match(/^[A-Z]+/i)?.[0];
+
+/**
+ * The maximum number of bundles considered for each course, since each course's bundles are the cross product
+ * of its sections of each type.
+ */
+const MAX_BUNDLES_PER_COURSE = 250;
+
+/**
+ * The maximum number of bundles checked for conflicts while searching for schedules, so that requests for which
+ * no or few schedules exist do not search the entire (exponentially large) space of schedules.
+ */
+const MAX_SCHEDULE_SEARCH_STEPS = 100_000;
+
+/**
+ * Returns valid combinations of exactly one section of each type offered by a course, up to
+ * `MAX_BUNDLES_PER_COURSE`, and whether any combinations were left out because of that limit.
+ */
+function getCourseBundles(sections: SchedulableSection[]) {
+  if (!sections.length) return { bundles: [], truncated: false };
+  const sectionsByType = sections.reduce(
+    (acc, section) =>
+      acc.set(section.sectionType, [...(acc.get(section.sectionType) ?? []), section]),
+    new Map<string, SchedulableSection[]>(),
+  );
+  let bundles: SchedulableSection[][] = [[]];
+  let truncated = false;
+  for (const candidates of sectionsByType.values()) {
+    bundles = bundles.flatMap((bundle) =>
+      candidates
+        .filter((candidate) => {
+          const group = sectionGroupOf(candidate);
+          return bundle.every(
+            (section) =>
+              (!group || !sectionGroupOf(section) || group === sectionGroupOf(section)) &&
+              !sectionsConflict(section, candidate),
+          );
+        })
+        .map((candidate) => [...bundle, candidate]),
+    );
+    if (bundles.length > MAX_BUNDLES_PER_COURSE) {
+      bundles = bundles.slice(0, MAX_BUNDLES_PER_COURSE);
+      truncated = true;
+    }
+  }
+  return { bundles, truncated };
+}
+
+/**
+ * Performs a depth-first search for up to `take` schedules consisting of one bundle per course,
+ * such that no two sections in a schedule conflict, and returns them along with whether the search was
+ * stopped after `MAX_SCHEDULE_SEARCH_STEPS` steps.
+ *
+ * Courses with fewer bundles are searched first, so that conflicts are found as close to the root as possible.
+ * The sections of each schedule are nonetheless in the order of the given courses.
+ */
+function enumerateSchedules(bundlesByCourse: SchedulableSection[][][], take: number) {
+  const searchOrder = bundlesByCourse
+    .map((bundles, index) => ({ bundles, index }))
+    .sort((a, b) => a.bundles.length - b.bundles.length);
+  const schedules: SchedulableSection[][] = [];
+  let steps = 0;
+  const search = (depth: number, chosen: SchedulableSection[][]) => {
+    if (depth === searchOrder.length) {
+      schedules.push(
+        chosen
+          .map((bundle, i) => ({ bundle, index: searchOrder[i].index }))
+          .sort((a, b) => a.index - b.index)
+          .flatMap(({ bundle }) => bundle),
+      );
+      return;
+    }
+    for (const bundle of searchOrder[depth].bundles) {
+      if (schedules.length >= take || steps >= MAX_SCHEDULE_SEARCH_STEPS) return;
+      steps++;
+      if (
+        bundle.every((section) =>
+          chosen.every((other) => other.every((o) => !sectionsConflict(section, o))),
+        )
+      ) {
+        search(depth + 1, [...chosen, bundle]);
+      }
+    }
+  };
+  search(0, []);
+  return {
+    schedules,
+    searchLimitReached: schedules.length < take && steps >= MAX_SCHEDULE_SEARCH_STEPS,
+  };
+}
+
+const recurrenceDays: Record<MeetingDay, string> = {
+  M: "MO",
+  Tu: "TU",
+  W: "WE",
+  Th: "TH",
+  F: "FR",
+  S: "SA",
+  Su: "SU",
+};
+
+const dayIndices: Record<MeetingDay, number> = { Su: 0, M: 1, Tu: 2, W: 3, Th: 4, F: 5, S: 6 };
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Returns the first date on or after `start` which falls on one of the given days.
+ */
+function firstMeetingDate(start: Date, days: MeetingDay[]) {
+  const offset = Math.min(...days.map((day) => (dayIndices[day] - start.getUTCDay() + 7) % 7));
+  return new Date(start.getTime() + offset * MILLISECONDS_PER_DAY);
+}
+
+/**
+ * Returns the recurrence rule for a meeting which takes place weekly until the end of instruction.
+ * UNTIL must be in UTC; the last instant of `instructionEnd` in Pacific time is always before
+ * 08:00 UTC on the next day, regardless of daylight saving time.
+ */
+const weeklyRecurrenceRule = (days: MeetingDay[], instructionEnd: Date) =>
+  `FREQ=WEEKLY;BYDAY=${days.map((day) => recurrenceDays[day]).join(",")};UNTIL=${toDateString(
+    new Date(instructionEnd.getTime() + MILLISECONDS_PER_DAY),
+  ).replaceAll("-", "")}T075959Z`;
+
 export class WebsocService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
@@ -331,14 +621,6 @@ export class WebsocService {
   }
 
   async getWebsocResponse(input: WebsocServiceInput) {
-    // final selection of actual data we need to process on our end
-    const selectionToReturn = {
-      school: getTableColumns(websocSchool),
-      department: getTableColumns(websocDepartment),
-      course: getTableColumns(websocCourse),
-      section: getTableColumns(websocSection),
-    };
-
     if (input.includeRelatedCourses) {
       // pull only the course IDs; don't need any data from subquery
       const sub = this.makeSelect({ courseId: websocCourse.id }, true)
@@ -346,18 +628,118 @@ export class WebsocService {
         .limit(1000)
         .as("sub");
 
-      return this.makeSelect(selectionToReturn, false)
+      return this.makeSelect(rowSelection, false)
         .rightJoin(sub, eq(websocCourse.id, sub.courseId))
         .then((rows) => rows as Row[])
         .then(transformRows);
     }
 
-    return this.makeSelect(selectionToReturn, true)
+    return this.makeSelect(rowSelection, true)
       .where(buildQuery(input))
       .then((rows) => rows as Row[])
       .then(transformRows);
   }
 
+  async getWebsocResponseByCursor(input: WebsocByCursorServiceInput): Promise<{
+    items: z.infer<typeof websocResponseSchema>["schools"];
+    nextCursor: string | null;
+  }> {
+    // sections may match the filters more than once, so the page is determined before the data is retrieved
+    const sectionKeys = (await this.makeSelect(
+      {
+        id: websocSection.id,
+        year: websocSection.year,
+        quarter: websocSection.quarter,
+        sectionCode: websocSection.sectionCode,
+      },
+      true,
+    )
+      .where(and(buildQuery(input), input.cursor && sectionAtOrAfter(input.cursor)))
+      .groupBy(websocSection.id)
+      .orderBy(...sectionOrder)
+      .limit(input.take + 1)) as { id: string; year: string; quarter: Term; sectionCode: number }[];
+
+    const pageSectionIds = sectionKeys.slice(0, input.take).map((section) => section.id);
+    const rows = pageSectionIds.length
+      ? ((await this.makeSelect(rowSelection, false)
+          .where(inArray(websocSection.id, pageSectionIds))
+          .orderBy(...sectionOrder)) as Row[])
+      : [];
+
+    const nextCursor =
+      input.take === 0
+        ? null
+        : sectionKeys.length > input.take
+          ? toSectionCursor(sectionKeys[input.take])
+          : null;
+
+    return {
+      items: transformRows(rows).schools,
+      nextCursor,
+    };
+  }
+
+  async batchGetSections(sections: { year: string; quarter: Term; sectionCode: number }[]) {
+    return this.db
+      .select({
+        year: websocSection.year,
+        quarter: websocSection.quarter,
+        section: getTableColumns(websocSection),
+      })
+      .from(websocSection)
+      .where(
+        or(
+          ...sections.map((section) =>
+            and(
+              eq(websocSection.year, section.year),
+              eq(websocSection.quarter, section.quarter),
+              eq(websocSection.sectionCode, section.sectionCode),
+            ),
+          ),
+        ),
+      )
+      .then((rows) =>
+        rows.map(({ section, ...row }) => ({ ...row, section: transformSection(section) })),
+      );
+  }
+
+  async getSectionsByCourses(courses: { courseId: string; year: string; quarter: Term }[]) {
+    return this.db
+      .select({
+        courseId: websocCourse.courseId,
+        year: websocCourse.year,
+        quarter: websocCourse.quarter,
+        section: getTableColumns(websocSection),
+      })
+      .from(websocCourse)
+      .innerJoin(websocSection, eq(websocCourse.id, websocSection.courseId))
+      .where(
+        or(
+          ...courses.map((course) =>
+            and(
+              eq(websocCourse.courseId, course.courseId),
+              eq(websocCourse.year, course.year),
+              eq(websocCourse.quarter, course.quarter),
+            ),
+          ),
+        ),
+      )
+      .orderBy(websocSection.sectionCode)
+      .then((rows) =>
+        rows.map(({ section, ...row }) => ({ ...row, section: transformSection(section) })),
+      );
+  }
+
+  /**
+   * Returns the ID of the course in the catalogue corresponding to each of the given WebSoc courses.
+   */
+  async getCatalogueCourseIds(websocCourseIds: string[]) {
+    return this.db
+      .select({ id: websocCourse.id, courseId: websocCourse.courseId })
+      .from(websocCourse)
+      .where(inArray(websocCourse.id, websocCourseIds));
+  }
+
   async getAllTerms() {
     return this.db
       .select({ year: websocSchool.year, quarter: websocSchool.quarter })
@@ -375,4 +757,247 @@ export class WebsocService {
           .map(transformTerm),
       );
   }
+
+  async getSectionConflicts(
+    input: WebsocConflictsServiceInput,
+  ): Promise<z.infer<typeof websocConflictsResponseSchema>> {
+    const rows = await this.db
+      .select({
+        sectionCode: websocSection.sectionCode,
+        finalExam: websocSection.finalExam,
+        meeting: getTableColumns(websocSectionMeeting),
+      })
+      .from(websocSection)
+      .leftJoin(websocSectionMeeting, eq(websocSection.id, websocSectionMeeting.sectionId))
+      .where(
+        and(
+          eq(websocSection.year, input.year),
+          eq(websocSection.quarter, input.quarter),
+          inArray(websocSection.sectionCode, input.sectionCodes),
+        ),
+      )
+      .orderBy(websocSection.sectionCode, websocSectionMeeting.meetingIndex);
+    const sections = new Map<number, ConflictCheckedSection>();
+    for (const { sectionCode, finalExam, meeting } of rows) {
+      if (!sections.has(sectionCode)) {
+        sections.set(sectionCode, {
+          sectionCode: sectionCode.toString(10).padStart(5, "0"),
+          finalExam,
+          meetings: [],
+          hasTBAMeeting: false,
+        });
+      }
+      const section = sections.get(sectionCode);
+      if (!section || !meeting) continue;
+      const timedMeeting = toTimedMeeting(meeting);
+      if (timedMeeting) {
+        section.meetings.push(timedMeeting);
+      } else {
+        section.hasTBAMeeting = true;
+      }
+    }
+    return {
+      ...findConflicts(sections.values().toArray()),
+      notFound: input.sectionCodes
+        .filter((code) => !sections.has(code))
+        .map((code) => code.toString(10).padStart(5, "0")),
+    };
+  }
+
+  async getSchedules(
+    input: WebsocSchedulesServiceInput,
+  ): Promise<z.infer<typeof websocSchedulesResponseSchema>> {
+    const conditions = [
+      eq(websocCourse.year, input.year),
+      eq(websocCourse.quarter, input.quarter),
+      inArray(websocCourse.courseId, input.courseIds),
+      isFalse(websocSection.isCancelled),
+    ];
+    if (input.skipFull) {
+      conditions.push(ne(websocSection.status, "FULL"));
+    }
+    const disqualifyingMeetingConditions = [
+      ...buildDaysOfWeekQuery(websocSectionMeeting, { days: input.excludedDays }),
+    ];
+    if (input.earliestStart) {
+      disqualifyingMeetingConditions.push(lt(websocSectionMeeting.startTime, input.earliestStart));
+    }
+    if (input.latestEnd) {
+      disqualifyingMeetingConditions.push(gt(websocSectionMeeting.endTime, input.latestEnd));
+    }
+    if (disqualifyingMeetingConditions.length) {
+      conditions.push(
+        notInArray(
+          websocSection.id,
+          this.db
+            .select({ sectionId: websocSectionMeeting.sectionId })
+            .from(websocSectionMeeting)
+            .where(or(...disqualifyingMeetingConditions)),
+        ),
+      );
+    }
+    const rows = await this.db
+      .select({
+        courseId: websocCourse.courseId,
+        section: {
+          id: websocSection.id,
+          sectionCode: websocSection.sectionCode,
+          sectionType: websocSection.sectionType,
+          sectionNum: websocSection.sectionNum,
+        },
+        meeting: getTableColumns(websocSectionMeeting),
+      })
+      .from(websocCourse)
+      .innerJoin(websocSection, eq(websocCourse.id, websocSection.courseId))
+      .leftJoin(websocSectionMeeting, eq(websocSection.id, websocSectionMeeting.sectionId))
+      .where(and(...conditions))
+      .orderBy(websocSection.sectionCode, websocSectionMeeting.meetingIndex);
+    const sections = new Map<string, SchedulableSection>();
+    for (const { courseId, section, meeting } of rows) {
+      if (!sections.has(section.id)) {
+        sections.set(section.id, {
+          courseId,
+          sectionCode: section.sectionCode.toString(10).padStart(5, "0"),
+          sectionType: section.sectionType,
+          sectionNum: section.sectionNum,
+          meetings: [],
+        });
+      }
+      // TBA meetings cannot conflict with anything, so they are not considered here
+      const timedMeeting = meeting ? toTimedMeeting(meeting) : null;
+      if (timedMeeting) {
+        sections.get(section.id)?.meetings.push(timedMeeting);
+      }
+    }
+    const courseBundles = input.courseIds.map((courseId) =>
+      getCourseBundles(
+        sections
+          .values()
+          .filter((s) => s.courseId === courseId)
+          .toArray(),
+      ),
+    );
+    const coursesWithoutSections = input.courseIds.filter(
+      (_, i) => !courseBundles[i].bundles.length,
+    );
+    if (coursesWithoutSections.length) {
+      return { schedules: [], coursesWithoutSections, searchLimitReached: false };
+    }
+    const { schedules, searchLimitReached } = enumerateSchedules(
+      courseBundles.map(({ bundles }) => bundles),
+      input.take,
+    );
+    return {
+      schedules: schedules.map((schedule) => ({
+        sections: schedule.map(({ meetings: _, ...section }) => section),
+      })),
+      coursesWithoutSections,
+      searchLimitReached:
+        searchLimitReached ||
+        (schedules.length < input.take && courseBundles.some(({ truncated }) => truncated)),
+    };
+  }
+
+  async getSectionsCalendar(input: WebsocCalendarServiceInput): Promise<string | null> {
+    const [term] = await this.db
+      .select()
+      .from(calendarTerm)
+      .where(eq(calendarTerm.id, `${input.year} ${input.quarter}`));
+    if (!term) return null;
+    const rows = await this.db
+      .select({
+        course: {
+          deptCode: websocCourse.deptCode,
+          courseNumber: websocCourse.courseNumber,
+          courseTitle: websocCourse.courseTitle,
+        },
+        section: {
+          sectionCode: websocSection.sectionCode,
+          sectionType: websocSection.sectionType,
+          sectionNum: websocSection.sectionNum,
+          instructors: websocSection.instructors,
+          finalExam: websocSection.finalExam,
+        },
+        meeting: getTableColumns(websocSectionMeeting),
+        location: getTableColumns(websocLocation),
+      })
+      .from(websocSection)
+      .innerJoin(websocCourse, eq(websocCourse.id, websocSection.courseId))
+      .leftJoin(websocSectionMeeting, eq(websocSection.id, websocSectionMeeting.sectionId))
+      .leftJoin(
+        websocSectionMeetingToLocation,
+        eq(websocSectionMeeting.id, websocSectionMeetingToLocation.meetingId),
+      )
+      .leftJoin(websocLocation, eq(websocLocation.id, websocSectionMeetingToLocation.locationId))
+      .where(
+        and(
+          eq(websocSection.year, input.year),
+          eq(websocSection.quarter, input.quarter),
+          inArray(websocSection.sectionCode, input.sectionCodes),
+        ),
+      )
+      .orderBy(websocSection.sectionCode, websocSectionMeeting.meetingIndex);
+    const sections = new Map<
+      number,
+      Pick<(typeof rows)[number], "course" | "section"> & {
+        meetings: Map<
+          number,
+          { meeting: typeof websocSectionMeeting.$inferSelect; rooms: string[] }
+        >;
+      }
+    >();
+    for (const { course, section, meeting, location } of rows) {
+      if (!sections.has(section.sectionCode)) {
+        sections.set(section.sectionCode, { course, section, meetings: new Map() });
+      }
+      const meetings = sections.get(section.sectionCode)?.meetings;
+      if (!meetings || !meeting) continue;
+      if (!meetings.has(meeting.meetingIndex)) {
+        meetings.set(meeting.meetingIndex, { meeting, rooms: [] });
+      }
+      if (location) {
+        meetings.get(meeting.meetingIndex)?.rooms.push(`${location.building} ${location.room}`);
+      }
+    }
+    const events: ICalendarEvent[] = [];
+    for (const { course, section, meetings } of sections.values()) {
+      const sectionCode = section.sectionCode.toString(10).padStart(5, "0");
+      const summary = `${course.deptCode} ${course.courseNumber} ${section.sectionType} ${section.sectionNum}`;
+      const description = [
+        course.courseTitle,
+        `Section code: ${sectionCode}`,
+        ...(section.instructors.length ? [`Instructors: ${section.instructors.join("; ")}`] : []),
+      ].join("\n");
+      for (const { meeting, rooms } of meetings.values()) {
+        const timedMeeting = toTimedMeeting(meeting);
+        if (!timedMeeting?.days.length) continue;
+        const date = toDateString(firstMeetingDate(term.instructionStart, timedMeeting.days));
+        events.push({
+          uid: `${input.year}-${input.quarter}-${sectionCode}-${meeting.meetingIndex}@anteaterapi.com`,
+          summary,
+          description,
+          location: rooms.join(", ") || undefined,
+          start: { date, time: toHourMinute(timedMeeting.startTime) },
+          end: { date, time: toHourMinute(timedMeeting.endTime) },
+          recurrenceRule: weeklyRecurrenceRule(timedMeeting.days, term.instructionEnd),
+        });
+      }
+      if (section.finalExam.examStatus === "SCHEDULED_FINAL") {
+        const { month, day, startTime, endTime, bldg } = section.finalExam;
+        // finals always take place in the same calendar year as the term's finals week
+        const date = toDateString(
+          new Date(Date.UTC(term.finalsStart.getUTCFullYear(), month, day)),
+        );
+        events.push({
+          uid: `${input.year}-${input.quarter}-${sectionCode}-final@anteaterapi.com`,
+          summary: `${course.deptCode} ${course.courseNumber} Final Exam`,
+          description,
+          location: bldg.join(", ") || undefined,
+          start: { date, time: startTime },
+          end: { date, time: endTime },
+        });
+      }
+    }
+    return buildICalendar(`${input.year} ${input.quarter} Schedule`, events);
+  }
 }
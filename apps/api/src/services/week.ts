@@ -1,7 +1,7 @@
-import type { weekQuerySchema } from "$schema";
+import type { calendarQuerySchema, weekBatchQuerySchema, weekQuerySchema } from "$schema";
 import type { database } from "@packages/db";
-import { and, getTableColumns, gte, lte, or } from "@packages/db/drizzle";
-import { calendarTerm } from "@packages/db/schema";
+import { and, eq, gte, lte } from "@packages/db/drizzle";
+import { calendarEvent, calendarTerm } from "@packages/db/schema";
 import type { z } from "zod";
 
 type WeekData = {
@@ -10,18 +10,46 @@ type WeekData = {
   display: string;
 };
 
+type CalendarTerm = typeof calendarTerm.$inferSelect;
+
+type Holiday = Pick<typeof calendarEvent.$inferSelect, "startDate" | "endDate">;
+
 const DAY_MS = 24 * 60 * 60 * 1000;
 const WEEK_MS = 7 * DAY_MS;
 const FALL_OFFSET_MS = 4 * DAY_MS;
 
+const TIMEZONE = "America/Los_Angeles";
+
 const quarters = ["Fall", "Winter", "Spring", "Summer1", "Summer10wk", "Summer2"] as const;
 
-const getWeek = (date: Date, term: typeof calendarTerm.$inferSelect): number =>
-  Math.floor(
-    (date.valueOf() -
-      (term.instructionStart.valueOf() + (term.quarter === "Fall" ? FALL_OFFSET_MS : 0))) /
-      WEEK_MS,
-  ) + 1;
+const toDateString = (d: Date): string => d.toISOString().split("T")[0];
+
+/**
+ * Returns today's date at UCI, at midnight UTC like the dates in the database.
+ * The worker's clock is in UTC, so the date according to it is ahead of UCI's from 4–5 PM onwards.
+ */
+const getToday = (): Date => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: TIMEZONE,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    })
+      .formatToParts(new Date())
+      .map(({ type, value }) => [type, Number.parseInt(value, 10)]),
+  );
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+};
+
+/**
+ * Fall quarter starts on a Thursday, so its first partial week is week 0.
+ */
+const getWeekOneStart = (term: CalendarTerm): number =>
+  term.instructionStart.valueOf() + (term.quarter === "Fall" ? FALL_OFFSET_MS : 0);
+
+const getWeek = (date: Date, term: CalendarTerm): number =>
+  Math.floor((date.valueOf() - getWeekOneStart(term)) / WEEK_MS) + 1;
 
 const getQuarter = (year: string, quarter: (typeof quarters)[number]): string => {
   switch (quarter) {
@@ -36,94 +64,159 @@ const getQuarter = (year: string, quarter: (typeof quarters)[number]): string =>
   }
 };
 
+function getWeekDataForDate(
+  date: Date,
+  terms: CalendarTerm[],
+  holidays: Holiday[],
+): WeekData | null {
+  const termsInInstruction = terms.filter(
+    (t) => t.instructionStart <= date && date <= t.instructionEnd,
+  );
+  const termsInFinals = terms.filter((t) => t.finalsStart <= date && date <= t.finalsEnd);
+
+  // campus holidays are no-class days for every term in session
+  const isHoliday = holidays.some((h) => h.startDate <= date && date <= h.endDate);
+  const weekLabel = (week: number) => (isHoliday ? "Holiday" : `Week ${week}`);
+
+  if (!termsInInstruction.length && !termsInFinals.length) {
+    return {
+      weeks: [-1],
+      quarters: ["N/A"],
+      display: "Enjoy your break! 😎",
+    };
+  }
+  if (termsInInstruction.length === 1 && !termsInFinals.length) {
+    const [term] = termsInInstruction;
+    const weeks: [number] = [getWeek(date, term)];
+    const quarters: [string] = [getQuarter(term.year, term.quarter)];
+    return {
+      weeks,
+      quarters,
+      display: `${weekLabel(weeks[0])} • ${quarters[0]}`,
+    };
+  }
+  if (!termsInInstruction.length && termsInFinals.length === 1) {
+    const [term] = termsInFinals;
+    const quarters: [string] = [getQuarter(term.year, term.quarter)];
+    return {
+      weeks: [-1],
+      quarters,
+      display: `Finals${term.quarter === "Summer2" ? "" : " Week"} • ${quarters[0]}. Good luck! 🤞`,
+    };
+  }
+  if (termsInInstruction.length === 2 && !termsInFinals.length) {
+    const [week1, week2] = termsInInstruction.map((x) => getWeek(date, x)) as [number, number];
+    const [quarter1, quarter2] = termsInInstruction.map(({ year, quarter }) =>
+      getQuarter(year, quarter),
+    ) as [string, string];
+    const display: string =
+      week1 === week2
+        ? `${weekLabel(week1)} • ${quarter1} | ${quarter2}`
+        : `${weekLabel(week1)} • ${quarter1} | ${weekLabel(week2)} • ${quarter2}`;
+    return {
+      weeks: [week1, week2],
+      quarters: [quarter1, quarter2],
+      display,
+    };
+  }
+  if (termsInInstruction.length === 1 && termsInFinals.length === 1) {
+    const [termInProgress] = termsInInstruction;
+    const [termInFinals] = termsInFinals;
+    const weeks: [number, number] = [getWeek(date, termInProgress), -1];
+    const quarters = [termInProgress, termInFinals].map(({ year, quarter }) =>
+      getQuarter(year, quarter),
+    ) as [string, string];
+    return {
+      weeks,
+      quarters,
+      display: `Finals • ${quarters[1]}. Good luck! 🤞 | ${weekLabel(weeks[0])} • ${quarters[0]}`,
+    };
+  }
+  return null;
+}
+
 type WeekServiceInput = z.infer<typeof weekQuerySchema>;
 
+type WeekTermServiceInput = z.infer<typeof calendarQuerySchema>;
+
+type WeekBatchServiceInput = z.infer<typeof weekBatchQuerySchema>;
+
 export class WeekService {
   constructor(private readonly db: ReturnType<typeof database>) {}
 
+  /**
+   * Fetches the terms and holidays relevant to any date between `start` and `end`, inclusive.
+   */
+  private async getCalendarData(start: Date, end: Date) {
+    const [terms, holidays] = await Promise.all([
+      this.db
+        .select()
+        .from(calendarTerm)
+        .where(and(lte(calendarTerm.instructionStart, end), gte(calendarTerm.finalsEnd, start))),
+      this.db
+        .select({ startDate: calendarEvent.startDate, endDate: calendarEvent.endDate })
+        .from(calendarEvent)
+        .where(
+          and(
+            eq(calendarEvent.type, "Holiday"),
+            lte(calendarEvent.startDate, end),
+            gte(calendarEvent.endDate, start),
+          ),
+        ),
+    ]);
+    return { terms, holidays };
+  }
+
   async getWeekData(input: WeekServiceInput): Promise<WeekData | null> {
     const { year, month, day } = input;
-    const today = new Date();
-    const y = year ?? today.getFullYear();
-    const m = month ?? today.getMonth() + 1;
-    const d = day ?? today.getDate();
-    const date = new Date(Date.UTC(y, m - 1, d));
-
-    const inInstructionCondition = and(
-      lte(calendarTerm.instructionStart, date),
-      gte(calendarTerm.instructionEnd, date),
-    );
-    const inFinalsCondition = and(
-      lte(calendarTerm.finalsStart, date),
-      gte(calendarTerm.finalsEnd, date),
+    const date = year && month && day ? new Date(Date.UTC(year, month - 1, day)) : getToday();
+    const { terms, holidays } = await this.getCalendarData(date, date);
+    return getWeekDataForDate(date, terms, holidays);
+  }
+
+  async getWeekDataBatch(input: WeekBatchServiceInput) {
+    const { dates } = input;
+    const timestamps = dates.map((date) => date.valueOf());
+    const { terms, holidays } = await this.getCalendarData(
+      new Date(Math.min(...timestamps)),
+      new Date(Math.max(...timestamps)),
     );
+    const res = [];
+    for (const date of dates) {
+      const data = getWeekDataForDate(date, terms, holidays);
+      if (!data) return null;
+      res.push({ date: toDateString(date), ...data });
+    }
+    return res;
+  }
 
-    const termsInProgress = await this.db
-      .select({
-        ...getTableColumns(calendarTerm),
-        inInstruction: inInstructionCondition as NonNullable<typeof inInstructionCondition>,
-        inFinals: inFinalsCondition as NonNullable<typeof inFinalsCondition>,
-      })
+  async getTermWeeks(input: WeekTermServiceInput) {
+    const { year, quarter } = input;
+    const [term] = await this.db
+      .select()
       .from(calendarTerm)
-      .where(or(inInstructionCondition, inFinalsCondition));
-
-    const termsInInstruction = termsInProgress.filter((t) => t.inInstruction);
-    const termsInFinals = termsInProgress.filter((t) => t.inFinals);
-
-    if (!termsInInstruction.length && !termsInFinals.length) {
-      return {
-        weeks: [-1],
-        quarters: ["N/A"],
-        display: "Enjoy your break! 😎",
-      };
-    }
-    if (termsInInstruction.length === 1 && !termsInFinals.length) {
-      const [term] = termsInInstruction;
-      const weeks: [number] = [getWeek(date, term)];
-      const quarters: [string] = [getQuarter(term.year, term.quarter)];
-      return {
-        weeks,
-        quarters,
-        display: `Week ${weeks[0]} • ${quarters[0]}`,
-      };
-    }
-    if (!termsInInstruction.length && termsInFinals.length === 1) {
-      const [term] = termsInFinals;
-      const quarters: [string] = [getQuarter(term.year, term.quarter)];
-      return {
-        weeks: [-1],
-        quarters,
-        display: `Finals${term.quarter === "Summer2" ? "" : " Week"} • ${quarters[0]}. Good luck! 🤞`,
-      };
-    }
-    if (termsInInstruction.length === 2 && !termsInFinals.length) {
-      const [week1, week2] = termsInInstruction.map((x) => getWeek(date, x)) as [number, number];
-      const [quarter1, quarter2] = termsInInstruction.map(({ year, quarter }) =>
-        getQuarter(year, quarter),
-      ) as [string, string];
-      const display: string =
-        week1 === week2
-          ? `Week ${week1} • ${quarter1} | ${quarter2}`
-          : `Week ${week1} • ${quarter1} | Week ${week2} • ${quarter2}`;
-      return {
-        weeks: [week1, week2],
-        quarters: [quarter1, quarter2],
-        display,
-      };
-    }
-    if (termsInInstruction.length === 1 && termsInFinals.length === 1) {
-      const [termInProgress] = termsInInstruction;
-      const [termInFinals] = termsInFinals;
-      const weeks: [number, number] = [getWeek(date, termInProgress), -1];
-      const quarters = [termInProgress, termInFinals].map(({ year, quarter }) =>
-        getQuarter(year, quarter),
-      ) as [string, string];
-      return {
-        weeks,
-        quarters,
-        display: `Finals • ${quarters[1]}. Good luck! 🤞 | Week ${weeks[0]} • ${quarters[0]}`,
-      };
+      .where(eq(calendarTerm.id, `${year} ${quarter}`));
+    if (!term) return null;
+    const weeks = [];
+    for (let week = getWeek(term.instructionStart, term); ; ++week) {
+      const weekStart = getWeekOneStart(term) + (week - 1) * WEEK_MS;
+      if (weekStart > term.instructionEnd.valueOf()) break;
+      // align to the Monday of the week, in case instruction starts on another day
+      const monday = weekStart - ((new Date(weekStart).getUTCDay() + 6) % 7) * DAY_MS;
+      weeks.push({
+        week,
+        start: toDateString(new Date(monday)),
+        end: toDateString(new Date(monday + 6 * DAY_MS)),
+      });
     }
-    return null;
+    return {
+      year,
+      quarter,
+      weeks,
+      finals: {
+        start: toDateString(term.finalsStart),
+        end: toDateString(term.finalsEnd),
+      },
+    };
   }
 }
@@ -1,9 +1,11 @@
 import { exit } from "node:process";
 import { database } from "@packages/db";
-import { calendarTerm } from "@packages/db/schema";
+import { getTableColumns } from "@packages/db/drizzle";
+import type { CalendarEventType } from "@packages/db/schema";
+import { calendarEvent, calendarTerm } from "@packages/db/schema";
 import { conflictUpdateSetAllCols } from "@packages/db/utils";
 import { sleep } from "@packages/stdlib";
-import { load } from "cheerio";
+import { type CheerioAPI, load } from "cheerio";
 import fetch from "cross-fetch";
 import { diffString } from "json-diff";
 import readlineSync from "readline-sync";
@@ -21,7 +23,19 @@ const SOC_AVAIL = /schedule of classes available/i;
 const INST_START = /instruction begins/i;
 const INST_END = /instruction ends/i;
 const FINALS = /final examinations/i;
+const HOLIDAY = /holiday/i;
+const ADD_DROP = /last day to (add|drop)/i;
+const GRADE_OPTION = /grad(e|ing) option/i;
+const COMMENCEMENT = /commencement/i;
 const HYPHEN = /[-–]/;
+const DATE = new RegExp(`^(${months.join("|")}) \\d`);
+
+const eventTypes: [RegExp, CalendarEventType][] = [
+  [HOLIDAY, "Holiday"],
+  [ADD_DROP, "AddDropDeadline"],
+  [GRADE_OPTION, "GradeOptionDeadline"],
+  [COMMENCEMENT, "Commencement"],
+];
 
 const parseDate = (year: number, dateString: string) =>
   new Date(
@@ -71,9 +85,16 @@ type TermDateData = {
   socAvailable: Date;
 };
 
-async function getTermDateData(year: string): Promise<TermDateData[]> {
-  const yearNum = Number.parseInt(year, 10);
+type TermEventData = {
+  year: string;
+  quarter: (typeof terms)[number];
+  type: CalendarEventType;
+  title: string;
+  startDate: Date;
+  endDate: Date;
+};
 
+async function fetchCalendar(year: string): Promise<CheerioAPI | null> {
   if (year.length !== 4 || Number.isNaN(Number.parseInt(year))) {
     throw new Error("Error: Invalid year provided.");
   }
@@ -87,9 +108,15 @@ async function getTermDateData(year: string): Promise<TermDateData[]> {
   );
 
   if (response.status === 404) {
-    return [];
+    return null;
   }
-  const data = load(await response.text())("table.calendartable")
+  return load(await response.text());
+}
+
+function getTermDateData($: CheerioAPI, year: string): TermDateData[] {
+  const yearNum = Number.parseInt(year, 10);
+
+  const data = $("table.calendartable")
     .text()
     .split("\n")
     .map((x) => x.trim())
@@ -147,41 +174,106 @@ async function getTermDateData(year: string): Promise<TermDateData[]> {
     });
 }
 
+/**
+ * Extracts holidays and deadlines from the calendar, row by row.
+ * The first row label cell is followed by one cell per term; the columns are Fall, Winter, and Spring
+ * until the header row of the summer sessions, after which they are Summer1, Summer10wk, and Summer2.
+ * A cell may contain multiple comma-separated dates or date ranges.
+ */
+function getTermEventData($: CheerioAPI, year: string): TermEventData[] {
+  const yearNum = Number.parseInt(year, 10);
+  const events: TermEventData[] = [];
+  let termOffset = 0;
+  for (const row of $("table.calendartable tr").toArray()) {
+    const [title, ...cells] = $(row)
+      .find("th, td")
+      .toArray()
+      .map((cell) => $(cell).text().replaceAll(/\s+/g, " ").trim());
+    if (cells.some((cell) => /^summer/i.test(cell))) {
+      termOffset = 3;
+      continue;
+    }
+    const type = title && eventTypes.find(([pattern]) => pattern.test(title))?.[1];
+    if (!type) continue;
+    for (const [i, cell] of cells.slice(0, 3).entries()) {
+      const termYear = yearNum + Number(termOffset + i > 0);
+      for (const dateRangeString of cell.split(/,\s*/).filter((x) => DATE.test(x))) {
+        const [startDate, endDate] = parseDateRange(termYear, dateRangeString);
+        // ranges such as "Dec 24-Jan 1" end in the following year
+        if (endDate < startDate) endDate.setUTCFullYear(endDate.getUTCFullYear() + 1);
+        events.push({
+          year: termYear.toString(10),
+          quarter: terms[termOffset + i],
+          type,
+          title,
+          startDate,
+          endDate,
+        });
+      }
+    }
+  }
+  return events;
+}
+
 async function main() {
   const url = process.env.DB_URL;
   if (!url) throw new Error("DB_URL not found");
   const db = database(url);
   console.log("Scraping calendar terms...");
   const values: TermDateData[] = [];
+  const events: TermEventData[] = [];
   for (let i = FIRST_YEAR; i <= LAST_YEAR; ++i) {
-    const data = await getTermDateData(i.toString(10));
-    if (!data.length) break;
-    values.push(...data);
+    const $ = await fetchCalendar(i.toString(10));
+    if (!$) break;
+    values.push(...getTermDateData($, i.toString(10)));
+    events.push(...getTermEventData($, i.toString(10)));
     await sleep(1000);
   }
   const sortedValues = deepSortArray(values);
-  console.log("Fetching calendar terms in the database...");
+  const sortedEvents = deepSortArray(events);
+  console.log("Fetching calendar terms and events in the database...");
   const dbValues = deepSortArray(await db.select().from(calendarTerm));
-  const diff = diffString(dbValues, sortedValues);
+  const { id: _, ...eventColumns } = getTableColumns(calendarEvent);
+  const dbEvents = deepSortArray(await db.select(eventColumns).from(calendarEvent));
+  const diff = diffString(
+    { terms: dbValues, events: dbEvents },
+    { terms: sortedValues, events: sortedEvents },
+  );
   if (!diff.length) {
-    console.log("No difference found between database and scraped calendar term data.");
+    console.log("No difference found between database and scraped calendar data.");
     console.log("All done!");
     exit();
   }
-  console.log("Difference between database and scraped calendar term data:");
+  console.log("Difference between database and scraped calendar data:");
   console.log(diff);
   if (!readlineSync.keyInYNStrict("Is this ok")) {
     console.log("Cancelling scraping run.");
     exit(1);
   }
   console.log("Writing scraped data to database...");
-  await db
-    .insert(calendarTerm)
-    .values(values)
-    .onConflictDoUpdate({
-      target: [calendarTerm.id],
-      set: conflictUpdateSetAllCols(calendarTerm),
-    });
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(calendarTerm)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [calendarTerm.id],
+        set: conflictUpdateSetAllCols(calendarTerm),
+      });
+    if (events.length) {
+      await tx
+        .insert(calendarEvent)
+        .values(events)
+        .onConflictDoUpdate({
+          target: [
+            calendarEvent.year,
+            calendarEvent.quarter,
+            calendarEvent.title,
+            calendarEvent.startDate,
+          ],
+          set: conflictUpdateSetAllCols(calendarEvent),
+        });
+    }
+  });
   console.log("All done!");
   exit();
 }
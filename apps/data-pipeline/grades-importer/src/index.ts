@@ -4,6 +4,7 @@ import { database } from "@packages/db";
 import { and, eq, getTableColumns, or } from "@packages/db/drizzle";
 import type { Term } from "@packages/db/schema";
 import { websocSection, websocSectionGrade } from "@packages/db/schema";
+import { bumpDataVersion } from "@packages/db/utils";
 import { getFromMapOrThrow } from "@packages/stdlib";
 import xlsx from "node-xlsx";
 
@@ -108,6 +109,7 @@ async function main() {
         .values(values.slice(i, i + ROWS_PER_INSERT))
         .onConflictDoNothing();
     }
+    await bumpDataVersion(tx, "grades");
   });
   exit(0);
 }
@@ -2,6 +2,7 @@ import type { database } from "@packages/db";
 import { and, eq } from "@packages/db/drizzle";
 import type { Term } from "@packages/db/schema";
 import { larcSection, websocCourse } from "@packages/db/schema";
+import { bumpDataVersion } from "@packages/db/utils";
 import { parseStartAndEndTimes, sleep } from "@packages/stdlib";
 import { parseMeetingDays } from "@packages/stdlib";
 import { load } from "cheerio";
@@ -172,5 +173,6 @@ export async function doScrape(db: ReturnType<typeof database>) {
         .values(v.map((x) => ({ ...x, courseId })))
         .onConflictDoNothing();
     }
+    await bumpDataVersion(tx, "larc");
   });
 }
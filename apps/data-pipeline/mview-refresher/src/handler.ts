@@ -1,11 +1,14 @@
 import { database } from "@packages/db";
-import { courseView, instructorView } from "@packages/db/schema";
+import { courseView, instructorView, programCourseView } from "@packages/db/schema";
+import { bumpDataVersion } from "@packages/db/utils";
 
 export default {
   async scheduled(_, env) {
     const db = database(env.DB.connectionString);
     await db.refreshMaterializedView(courseView);
     await db.refreshMaterializedView(instructorView);
+    await db.refreshMaterializedView(programCourseView);
+    await bumpDataVersion(db, "materializedViews");
     await db.$client.end({ timeout: 5 });
   },
 } satisfies ExportedHandler<Env>;
@@ -1,7 +1,7 @@
 import type { database } from "@packages/db";
 import { lt, sql } from "@packages/db/drizzle";
 import { studyLocation, studyRoom, studyRoomSlot } from "@packages/db/schema";
-import { conflictUpdateSetAllCols } from "@packages/db/utils";
+import { bumpDataVersion, conflictUpdateSetAllCols } from "@packages/db/utils";
 import type { Cheerio, CheerioAPI } from "cheerio";
 import { load } from "cheerio";
 import fetch from "cross-fetch";
@@ -268,5 +268,6 @@ export async function doScrape(db: ReturnType<typeof database>) {
         set: conflictUpdateSetAllCols(studyRoomSlot),
       });
     await tx.delete(studyRoomSlot).where(lt(studyRoomSlot.end, new Date()));
+    await bumpDataVersion(tx, "studyLocations");
   });
 }
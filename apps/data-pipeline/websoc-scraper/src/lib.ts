@@ -27,7 +27,7 @@ import {
   websocSectionMeetingToLocation,
   websocSectionToInstructor,
 } from "@packages/db/schema";
-import { conflictUpdateSetAllCols } from "@packages/db/utils";
+import { bumpDataVersion, conflictUpdateSetAllCols } from "@packages/db/utils";
 import {
   baseTenIntOrNull,
   intersectAll,
@@ -669,6 +669,7 @@ const doChunkUpsert = async (
       .insert(websocMeta)
       .values(websocMetaValues)
       .onConflictDoUpdate({ target: websocMeta.name, set: websocMetaValues });
+    await bumpDataVersion(tx, "websoc");
   });
 
 const getUniqueMeetings = (meetings: WebsocSectionMeeting[]) =>
@@ -860,6 +861,7 @@ export async function scrapeTerm(
       .insert(websocMeta)
       .values(values)
       .onConflictDoUpdate({ target: websocMeta.name, set: values });
+    await bumpDataVersion(tx, "websoc");
   });
 }
 
@@ -3,22 +3,29 @@
 import { createHash } from "node:crypto";
 import {
   type CreateKeyFormValues,
+  type KeyUsage,
   createKeyTransform,
   unprivilegedKeySchema,
 } from "@/app/actions/types";
 import { auth } from "@/auth";
-import { MAX_API_KEYS } from "@/lib/utils";
+import { KEY_ROTATION_GRACE_PERIOD_DAYS, MAX_API_KEYS } from "@/lib/utils";
 import type { KeyData } from "@packages/key-types";
 import { createId } from "@paralleldrive/cuid2";
 import Cloudflare from "cloudflare";
 import { z } from "zod";
 
-const { CLOUDFLARE_KV_NAMESPACE_ID, CLOUDFLARE_DEFAULT_ACCOUNT_ID } = z
-  .object({ CLOUDFLARE_KV_NAMESPACE_ID: z.string(), CLOUDFLARE_DEFAULT_ACCOUNT_ID: z.string() })
+const { CLOUDFLARE_KV_NAMESPACE_ID, CLOUDFLARE_DEFAULT_ACCOUNT_ID, ANTEATER_API_URL } = z
+  .object({
+    CLOUDFLARE_KV_NAMESPACE_ID: z.string(),
+    CLOUDFLARE_DEFAULT_ACCOUNT_ID: z.string(),
+    ANTEATER_API_URL: z.string().url().default("https://anteaterapi.com"),
+  })
   .parse(process.env);
 
 const cf = new Cloudflare();
 
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
 const getUserPrefix = (userId: string) => createHash("sha256").update(userId).digest("base64url");
 
 export const validateKeyInput = async (input: CreateKeyFormValues): Promise<KeyData> => {
@@ -149,6 +156,69 @@ export async function editUserApiKey(key: string, keyData: CreateKeyFormValues)
   return validatedKeyData;
 }
 
+/**
+ * Rotate the authed user's API key
+ *
+ * Issues a new key with the same settings, and keeps the old key valid for a grace period so that it can be replaced
+ * wherever it is used.
+ *
+ * @param key the API key to rotate
+ * @return the new key, and the data of both keys
+ */
+export async function rotateUserApiKey(key: string) {
+  const session = await auth();
+  if (!session || !session.user?.id) {
+    throw new Error("Unauthorized");
+  }
+
+  const keys = await getUserKeysNames(session.user.id);
+
+  if (!keys.includes(key)) {
+    throw new Error("API key does not exist on user");
+  }
+
+  if (keys.length >= MAX_API_KEYS) {
+    throw new Error("User at max API key limit");
+  }
+
+  const keyData: KeyData = await getUserApiKeyData(key);
+
+  const now = new Date();
+  const gracePeriodEnd = new Date(
+    now.getTime() + KEY_ROTATION_GRACE_PERIOD_DAYS * MILLISECONDS_PER_DAY,
+  );
+
+  const newKeyData: KeyData = {
+    ...keyData,
+    createdAt: now,
+    // the new key is valid for as long as the old key was
+    expiresAt: keyData.expiresAt
+      ? new Date(
+          now.getTime() +
+            (new Date(keyData.expiresAt).getTime() - new Date(keyData.createdAt).getTime()),
+        )
+      : undefined,
+  };
+
+  const oldKeyData: KeyData = {
+    ...keyData,
+    expiresAt:
+      keyData.expiresAt && new Date(keyData.expiresAt) < gracePeriodEnd
+        ? keyData.expiresAt
+        : gracePeriodEnd,
+  };
+
+  const newKey = await createUserKeyHelper(session.user.id, newKeyData);
+
+  await cf.kv.namespaces.values.update(CLOUDFLARE_KV_NAMESPACE_ID, key, {
+    account_id: CLOUDFLARE_DEFAULT_ACCOUNT_ID,
+    value: JSON.stringify(oldKeyData),
+    metadata: "{}",
+  });
+
+  return { key: newKey, keyData: newKeyData, oldKeyData };
+}
+
 /**
  * Delete the authed user's API key
  */
@@ -168,3 +238,73 @@ export async function deleteUserApiKey(key: string) {
     account_id: CLOUDFLARE_DEFAULT_ACCOUNT_ID,
   });
 }
+
+const getKeyUsageHelper = async (
+  key: string,
+  keyData: KeyData,
+  days: number,
+): Promise<KeyUsage | null> => {
+  // publishable keys are only accepted from one of their origins, and any subdomain will do for a wildcard origin
+  const origin =
+    keyData._type === "publishable"
+      ? Object.keys(keyData.origins)[0]?.replace("*", "www")
+      : undefined;
+
+  const response = await fetch(`${ANTEATER_API_URL}/v2/rest/usage?days=${days}`, {
+    headers: { Authorization: `Bearer ${key}`, ...(origin ? { Origin: origin } : {}) },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const { data } = await response.json();
+  return data;
+};
+
+/**
+ * Get the usage of the authed user's API key over the past 30 days
+ *
+ * @param key the API key
+ * @return the key's usage, or null if it could not be retrieved
+ */
+export async function getUserApiKeyUsage(key: string): Promise<KeyUsage | null> {
+  const session = await auth();
+  if (!session || !session.user?.id) {
+    throw new Error("Unauthorized");
+  }
+
+  const keys = await getUserKeysNames(session.user.id);
+
+  if (!keys.includes(key)) {
+    throw new Error("API key does not exist on user");
+  }
+
+  return getKeyUsageHelper(key, await getUserApiKeyData(key), 30);
+}
+
+/**
+ * Get when each of the authed user's API keys was last used
+ *
+ * @return when each key was last used, or null if it has never been used or this could not be retrieved
+ */
+export async function getUserApiKeysLastUsed(): Promise<Record<string, string | null>> {
+  const session = await auth();
+  if (!session || !session.user?.id) {
+    throw new Error("Unauthorized");
+  }
+
+  const keys = await getUserKeysHelper(session.user.id);
+
+  return Object.fromEntries(
+    await Promise.all(
+      Object.entries(keys).map(async ([key, keyData]) => [
+        key,
+        await getKeyUsageHelper(key, keyData, 1)
+          .then((usage) => usage?.lastUsedAt ?? null)
+          .catch(() => null),
+      ]),
+    ),
+  );
+}
@@ -1,4 +1,4 @@
-import { type KeyData, accessControlledResources } from "@packages/key-types";
+import { type KeyData, accessControlledResources, scopes } from "@packages/key-types";
 import { z } from "zod";
 
 export const createKeySchema = z
@@ -6,13 +6,42 @@ export const createKeySchema = z
     _type: z.enum(["publishable", "secret"]),
     name: z.string().min(1).max(30),
     createdAt: z.date(),
+    expiresAt: z.date().nullish(),
     origins: z.array(z.object({ url: z.string() })).optional(),
+    allowLocalhost: z.boolean().optional(),
     rateLimitOverride: z.number().positive().or(z.nan()).optional(),
     resources: z.record(z.enum(accessControlledResources), z.boolean()).optional(),
+    scopes: z.record(z.enum(scopes), z.boolean()).optional(),
   })
   .strict();
 
+/**
+ * Whether the given URL is an origin, or a pattern which matches subdomains of an origin.
+ */
+const isValidOrigin = (url: string) => {
+  const isPattern = /^https?:\/\/\*\./.test(url);
+  // `new URL` does not accept wildcards, so substitute a label which is valid in their place
+  const candidate = isPattern ? url.replace("*", "a") : url;
+  try {
+    const { origin, hostname } = new URL(candidate);
+    return (
+      origin === candidate &&
+      !candidate.includes("*") &&
+      (!isPattern || hostname.split(".").length >= 3)
+    );
+  } catch {
+    return false;
+  }
+};
+
 export const createRefinedKeySchema = createKeySchema.superRefine((data, ctx) => {
+  if (data.expiresAt && data.expiresAt <= new Date()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Expiration date must be in the future",
+      path: ["expiresAt"],
+    });
+  }
   if (data._type === "publishable") {
     if (!data.origins || data.origins.length === 0) {
       ctx.addIssue({
@@ -29,6 +58,14 @@ export const createRefinedKeySchema = createKeySchema.superRefine((data, ctx) =>
             message: "Origin URL must use http:// or https://",
             path: ["origins", index, "url"],
           });
+        } else if (!isValidOrigin(origin.url)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message:
+              "Origin URL must consist of only a scheme, host and optional port, and may only use a wildcard " +
+              "as the first label of a host with at least two other labels (e.g. https://*.example.com)",
+            path: ["origins", index, "url"],
+          });
         } else {
           if (urlsSet.has(origin.url)) {
             ctx.addIssue({
@@ -57,7 +94,11 @@ export const createKeyTransform = createKeySchema.transform((data) => {
             data.origins?.map((origin: z.infer<typeof originSchema>) => [origin.url, true]) ?? [],
           ) as Record<string, boolean>)
         : undefined,
+    allowLocalhost: data._type === "publishable" && data.allowLocalhost ? true : undefined,
     rateLimitOverride: data.rateLimitOverride ? data.rateLimitOverride : undefined,
+    expiresAt: data.expiresAt ?? undefined,
+    // a key which is granted every scope is not restricted at all
+    scopes: scopes.every((scope) => data.scopes?.[scope] ?? true) ? undefined : data.scopes,
     createdAt: new Date(),
   } as KeyData;
 });
@@ -66,8 +107,17 @@ export const unprivilegedKeySchema = createKeySchema
   .omit({
     resources: true,
     rateLimitOverride: true,
+    scopes: true,
   })
   .strict();
 
 export type CreateKeyFormValues = z.infer<typeof createKeySchema>;
 export type CreateKeyValues = z.infer<typeof createKeyTransform>;
+
+export type KeyUsage = {
+  limit: number;
+  remaining: number;
+  resetAt: string | null;
+  lastUsedAt: string | null;
+  usage: { date: string; route: string; count: number }[];
+};
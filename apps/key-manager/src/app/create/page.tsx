@@ -2,6 +2,7 @@
 
 import { createUserApiKey } from "@/app/actions/keys";
 import { type CreateKeyFormValues, createRefinedKeySchema } from "@/app/actions/types";
+import ExpiresAtField from "@/components/key/form/ExpiresAtField";
 import NameField from "@/components/key/form/NameField";
 import OriginsField from "@/components/key/form/OriginsField";
 import RateLimitOverrideField from "@/components/key/form/RateLimitOverrideField";
@@ -38,9 +39,12 @@ const CreateKey = () => {
       _type: "" as CreateKeyFormValues["_type"],
       name: "",
       origins: [{ url: "" }],
+      allowLocalhost: false,
       rateLimitOverride: undefined,
       resources: undefined,
+      scopes: undefined,
       createdAt: new Date(),
+      expiresAt: undefined,
     },
   };
 
@@ -91,6 +95,9 @@ const CreateKey = () => {
           {/* Origins */}
           {form.watch("_type") === "publishable" && <OriginsField form={form} />}
 
+          {/* Expiration Date */}
+          <ExpiresAtField form={form} />
+
           {session?.user?.isAdmin && (
             <Alert variant={"destructive"} className={"space-y-6 text-foreground"}>
               <ResourcesField form={form} />
@@ -12,17 +12,28 @@ import { Button } from "@/components/ui/button";
 import { AlertCircle, ChevronLeft } from "lucide-react";
 
 import DeleteKey from "@/components/key/DeleteKey";
+import ExpiresAtField from "@/components/key/form/ExpiresAtField";
 import NameField from "@/components/key/form/NameField";
 import OriginsField from "@/components/key/form/OriginsField";
 import RateLimitOverrideField from "@/components/key/form/RateLimitOverrideField";
 import ResourcesField from "@/components/key/form/ResourcesField";
 import TypeField from "@/components/key/form/TypeField";
 import DisplayKey from "@/components/key/view/DisplayKey";
+import UsageChart from "@/components/key/view/UsageChart";
 import HeadingText from "@/components/layout/HeadingText";
 import { Form } from "@/components/ui/form";
 
-import { editUserApiKey, getUserApiKeyData, getUserKeysNames } from "@/app/actions/keys";
-import { type CreateKeyFormValues, createRefinedKeySchema } from "@/app/actions/types";
+import {
+  editUserApiKey,
+  getUserApiKeyData,
+  getUserApiKeyUsage,
+  getUserKeysNames,
+} from "@/app/actions/keys";
+import {
+  type CreateKeyFormValues,
+  type KeyUsage,
+  createRefinedKeySchema,
+} from "@/app/actions/types";
 import ButtonSpinner from "@/components/ui/button-spinner";
 import Placeholder from "@/components/ui/placeholder";
 
@@ -45,6 +56,7 @@ const EditKey = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [keyData, setKeyData] = useState<CreateKeyFormValues | null>(null);
   const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [usage, setUsage] = useState<KeyUsage | null>(null);
 
   const form = useForm<CreateKeyFormValues>({
     resolver: zodResolver(createRefinedKeySchema),
@@ -80,12 +92,18 @@ const EditKey = () => {
                 }))
               : [],
           createdAt: new Date(data.createdAt),
+          expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
         };
 
         form.reset(formattedData);
 
         setKeyData(formattedData);
         setLoading(false);
+
+        // usage is informational, so failing to retrieve it should not prevent editing the key
+        getUserApiKeyUsage(key)
+          .then(setUsage)
+          .catch(() => setUsage(null));
       } catch (err: unknown) {
         setError(err instanceof Error ? err.message : "An error occurred while fetching key data.");
       }
@@ -121,6 +139,8 @@ const EditKey = () => {
         <>
           <DisplayKey keyText={key} background label={"Key"} />
 
+          {usage && <UsageChart usage={usage} />}
+
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               {/* Name */}
@@ -132,6 +152,9 @@ const EditKey = () => {
               {/* Origins */}
               {form.watch("_type") === "publishable" && <OriginsField form={form} />}
 
+              {/* Expiration Date */}
+              <ExpiresAtField form={form} />
+
               {/* Admin Fields */}
               {session?.user?.isAdmin && (
                 <Alert variant={"destructive"} className={"space-y-6 text-foreground"}>
@@ -1,6 +1,6 @@
 "use client";
 
-import { getUserApiKeys } from "@/app/actions/keys";
+import { getUserApiKeys, getUserApiKeysLastUsed } from "@/app/actions/keys";
 import KeyTableRow from "@/components/key/view/KeyTableRow";
 import HeadingText from "@/components/layout/HeadingText";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,7 @@ import { useEffect, useState, useTransition } from "react";
 const KeyManager = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [apiKeys, setApiKeys] = useState<Record<string, KeyData>>({});
+  const [lastUsed, setLastUsed] = useState<Record<string, string | null> | null>(null);
 
   const [_, startTransition] = useTransition();
 
@@ -23,6 +24,11 @@ const KeyManager = () => {
       const keys = await getUserApiKeys();
       setApiKeys(keys);
       setLoading(false);
+
+      // when keys were last used is informational, so it is loaded after the keys themselves
+      getUserApiKeysLastUsed()
+        .then(setLastUsed)
+        .catch(() => setLastUsed({}));
     });
   }, []);
 
@@ -40,9 +46,10 @@ const KeyManager = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="w-1/4">Name</TableHead>
-                  <TableHead className="w-1/4">Created</TableHead>
-                  <TableHead className="w-1/4">Key</TableHead>
+                  <TableHead className="w-1/5">Name</TableHead>
+                  <TableHead className="w-1/5">Created</TableHead>
+                  <TableHead className="w-1/5">Last Used</TableHead>
+                  <TableHead className="w-1/5">Key</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -51,6 +58,7 @@ const KeyManager = () => {
                     key={apiKey}
                     apiKey={apiKey}
                     apiKeyData={apiKeyData}
+                    lastUsedAt={lastUsed ? (lastUsed[apiKey] ?? null) : undefined}
                     apiKeys={apiKeys}
                     setApiKeys={setApiKeys}
                   />
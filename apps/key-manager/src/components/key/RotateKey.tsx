@@ -0,0 +1,100 @@
+import { rotateUserApiKey } from "@/app/actions/keys";
+import DisplayKey from "@/components/key/view/DisplayKey";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import ButtonSpinner from "@/components/ui/button-spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { KEY_ROTATION_GRACE_PERIOD_DAYS } from "@/lib/utils";
+import type { KeyData } from "@packages/key-types";
+import { AlertCircle, RotateCwIcon } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+import { startTransition } from "react";
+
+interface Props {
+  apiKey: string;
+  apiKeyName?: string;
+  apiKeys: Record<string, KeyData>;
+  setApiKeys: React.Dispatch<React.SetStateAction<Record<string, KeyData>>>;
+}
+
+const RotateKey: React.FC<Props> = ({ apiKey, apiKeyName, apiKeys, setApiKeys }) => {
+  const [isRotating, setIsRotating] = useState<boolean>(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRotateKey = (key: string) => {
+    setIsRotating(true);
+
+    startTransition(async () => {
+      try {
+        const rotated = await rotateUserApiKey(key);
+
+        setApiKeys({ ...apiKeys, [key]: rotated.oldKeyData, [rotated.key]: rotated.keyData });
+        setNewKey(rotated.key);
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "An error occurred while rotating the key.");
+      }
+
+      setIsRotating(false);
+    });
+  };
+
+  const abbreviatedKey = `...${apiKey.substring(apiKey.indexOf(".") + 1)}`;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="secondary">
+          <RotateCwIcon />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className={newKey ? "max-w-4xl" : undefined}>
+        <DialogHeader>
+          <DialogTitle>{newKey ? "API Key Rotated" : "Rotate API Key"}</DialogTitle>
+        </DialogHeader>
+        {newKey ? (
+          <div className={"space-y-4"}>
+            <div>
+              The old key will stop working in {KEY_ROTATION_GRACE_PERIOD_DAYS} days, unless it
+              expires sooner. Replace it with the new key:
+            </div>
+            <DisplayKey keyText={newKey} background />
+          </div>
+        ) : (
+          <>
+            <div className={"space-y-4"}>
+              <div>
+                Are you sure you want to rotate this API key? A new key with the same settings will
+                be created, and this key will stop working in {KEY_ROTATION_GRACE_PERIOD_DAYS} days.
+              </div>
+              <p className={"truncate max-w-96 font-bold"}>{apiKeyName}</p>
+              <DisplayKey keyText={abbreviatedKey} background copy={false} />
+              {error && (
+                <Alert variant={"destructive"}>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Error</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+            <DialogFooter>
+              <ButtonSpinner onClick={() => handleRotateKey(apiKey)} isLoading={isRotating}>
+                Rotate
+              </ButtonSpinner>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RotateKey;
@@ -0,0 +1,35 @@
+import type { CreateKeyFormValues } from "@/app/actions/types";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import type React from "react";
+import type { UseFormReturn } from "react-hook-form";
+
+interface Props {
+  form: UseFormReturn<CreateKeyFormValues>;
+}
+
+const ExpiresAtField: React.FC<Props> = ({ form }) => {
+  return (
+    <FormField
+      control={form.control}
+      name="expiresAt"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Expiration Date</FormLabel>
+          <FormControl>
+            <Input
+              type={"date"}
+              value={field.value ? field.value.toISOString().split("T")[0] : ""}
+              onChange={(e) => field.onChange(e.target.valueAsDate)}
+              onBlur={field.onBlur}
+              ref={field.ref}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+};
+
+export default ExpiresAtField;
@@ -2,6 +2,7 @@ import type { CreateKeyFormValues } from "@/app/actions/types";
 import { Button } from "@/components/ui/button";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { PlusIcon, TrashIcon } from "lucide-react";
 import type React from "react";
 import { type UseFormReturn, useFieldArray } from "react-hook-form";
@@ -32,6 +33,7 @@ const OriginsField: React.FC<Props> = ({ form }) => {
                   <div className="flex space-x-2 items-center justify-between">
                     <Input
                       {...fieldInput}
+                      placeholder="https://example.com or https://*.example.com"
                       className={"w-11/12"}
                       onChange={(e) => {
                         fieldInput.onChange(e);
@@ -54,6 +56,19 @@ const OriginsField: React.FC<Props> = ({ form }) => {
             <PlusIcon />
             <div>Add Origin</div>
           </Button>
+
+          <FormField
+            control={form.control}
+            name="allowLocalhost"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                </FormControl>
+                <FormLabel>Allow localhost on any port</FormLabel>
+              </FormItem>
+            )}
+          />
         </div>
       </FormControl>
       <FormMessage />
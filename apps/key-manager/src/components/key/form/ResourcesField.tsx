@@ -9,7 +9,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { accessControlledResources } from "@packages/key-types";
+import { accessControlledResources, scopes } from "@packages/key-types";
 import type React from "react";
 import type { UseFormReturn } from "react-hook-form";
 
@@ -56,6 +56,38 @@ const ResourcesField: React.FC<Props> = ({ form }) => {
           </TableBody>
         </Table>
       </FormControl>
+      <FormControl>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-full">Scope</TableHead>
+              <TableHead>Access</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scopes.map((scope) => (
+              <TableRow key={scope}>
+                <TableCell>{scope}</TableCell>
+                <TableCell>
+                  <FormField
+                    control={form.control}
+                    name={`scopes.${scope}`}
+                    defaultValue={true}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </FormControl>
       <FormMessage />
     </FormItem>
   );
@@ -1,9 +1,11 @@
 import DeleteKey from "@/components/key/DeleteKey";
+import RotateKey from "@/components/key/RotateKey";
 import DisplayKey from "@/components/key/view/DisplayKey";
 import { Button } from "@/components/ui/button";
+import Placeholder from "@/components/ui/placeholder";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import type { KeyData } from "@packages/key-types";
+import { type KeyData, isKeyExpired } from "@packages/key-types";
 import { GlobeIcon, LockIcon, PencilIcon } from "lucide-react";
 import Link from "next/link";
 import type React from "react";
@@ -12,11 +14,12 @@ import type { SetStateAction } from "react";
 interface Props {
   apiKey: string;
   apiKeyData: KeyData;
+  lastUsedAt?: string | null;
   apiKeys: Record<string, KeyData>;
   setApiKeys: React.Dispatch<SetStateAction<Record<string, KeyData>>>;
 }
 
-const KeyTableRow: React.FC<Props> = ({ apiKey, apiKeyData, apiKeys, setApiKeys }) => {
+const KeyTableRow: React.FC<Props> = ({ apiKey, apiKeyData, lastUsedAt, apiKeys, setApiKeys }) => {
   const abbreviatedKey = `...${apiKey.substring(apiKey.indexOf(".") + 1)}`;
 
   const createdAtFormat = new Intl.DateTimeFormat("en-US", {
@@ -63,8 +66,25 @@ const KeyTableRow: React.FC<Props> = ({ apiKey, apiKeyData, apiKeys, setApiKeys
           {keyTypeToIcon(apiKeyData._type)}
           <span>{apiKeyData.name}</span>
         </span>
+        {apiKeyData.expiresAt && (
+          <span
+            className={`text-sm ${isKeyExpired(apiKeyData) ? "text-destructive" : "text-muted-foreground"}`}
+          >
+            {isKeyExpired(apiKeyData) ? "Expired" : "Expires"}{" "}
+            {createdAtFormat.format(new Date(apiKeyData.expiresAt))}
+          </span>
+        )}
       </TableCell>
       <TableCell>{createdAtFormat.format(new Date(apiKeyData.createdAt))}</TableCell>
+      <TableCell>
+        {lastUsedAt === undefined ? (
+          <Placeholder className={"h-4"} />
+        ) : lastUsedAt ? (
+          createdAtFormat.format(new Date(lastUsedAt))
+        ) : (
+          <span className={"text-muted-foreground"}>Never</span>
+        )}
+      </TableCell>
       <TableCell>
         <DisplayKey keyText={abbreviatedKey} copyText={apiKey} />
       </TableCell>
@@ -76,6 +96,12 @@ const KeyTableRow: React.FC<Props> = ({ apiKey, apiKeyData, apiKeys, setApiKeys
               <span>Edit</span>
             </Link>
           </Button>
+          <RotateKey
+            apiKey={apiKey}
+            apiKeyName={apiKeyData.name}
+            apiKeys={apiKeys}
+            setApiKeys={setApiKeys}
+          />
           <DeleteKey
             apiKey={apiKey}
             apiKeyName={apiKeyData.name}
@@ -0,0 +1,92 @@
+import type { KeyUsage } from "@/app/actions/types";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type React from "react";
+
+const DAYS = 30;
+const TOP_ROUTES = 5;
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface Props {
+  usage: KeyUsage;
+}
+
+const UsageChart: React.FC<Props> = ({ usage }) => {
+  const today = new Date(`${new Date().toISOString().split("T")[0]}T00:00:00Z`);
+
+  const countsByDate = usage.usage.reduce(
+    (acc, { date, count }) => acc.set(date, (acc.get(date) ?? 0) + count),
+    new Map<string, number>(),
+  );
+
+  const days = Array.from({ length: DAYS }, (_, i) => {
+    const date = new Date(today.getTime() - (DAYS - 1 - i) * MILLISECONDS_PER_DAY)
+      .toISOString()
+      .split("T")[0];
+    return { date, count: countsByDate.get(date) ?? 0 };
+  });
+
+  const maxCount = Math.max(1, ...days.map(({ count }) => count));
+  const totalCount = days.reduce((acc, { count }) => acc + count, 0);
+
+  const topRoutes = Array.from(
+    usage.usage.reduce(
+      (acc, { route, count }) => acc.set(route, (acc.get(route) ?? 0) + count),
+      new Map<string, number>(),
+    ),
+  )
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_ROUTES);
+
+  const dateFormat = new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <div className={"space-y-4"}>
+      <div className={"flex justify-between text-sm"}>
+        <p>Usage (last {DAYS} days)</p>
+        <p className={"text-muted-foreground"}>
+          {totalCount.toLocaleString()} requests · {usage.remaining.toLocaleString()}/
+          {usage.limit.toLocaleString()} remaining this hour
+        </p>
+      </div>
+
+      <TooltipProvider>
+        <div className={"flex items-end h-32 gap-1"}>
+          {days.map(({ date, count }) => (
+            <Tooltip key={date} delayDuration={100}>
+              <TooltipTrigger asChild>
+                <div className={"flex-1 h-full flex items-end"}>
+                  <div
+                    className={"w-full rounded-sm bg-primary min-h-px"}
+                    style={{ height: `${(count / maxCount) * 100}%` }}
+                  />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>
+                  {dateFormat.format(new Date(date))}: {count.toLocaleString()} requests
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </TooltipProvider>
+
+      {topRoutes.length > 0 && (
+        <ul className={"text-sm space-y-1"}>
+          {topRoutes.map(([route, count]) => (
+            <li key={route} className={"flex justify-between"}>
+              <code>{route}</code>
+              <span className={"text-muted-foreground"}>{count.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UsageChart;
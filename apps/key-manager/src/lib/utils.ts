@@ -6,3 +6,5 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export const MAX_API_KEYS = 20;
+
+export const KEY_ROTATION_GRACE_PERIOD_DAYS = 7;
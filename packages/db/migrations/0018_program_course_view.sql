@@ -0,0 +1,26 @@
+CREATE MATERIALIZED VIEW "public"."program_course_view" AS (
+  WITH RECURSIVE program AS (
+    SELECT 'major' AS program_type, "major"."id" AS program_id, "major"."name" AS program_name, "major"."requirements" AS requirements FROM "major"
+    UNION ALL
+    SELECT 'minor', "minor"."id", "minor"."name", "minor"."requirements" FROM "minor"
+    UNION ALL
+    SELECT 'specialization', "specialization"."id", "specialization"."name", "specialization"."requirements" FROM "specialization"
+    UNION ALL
+    SELECT 'ugrad', "school_requirement"."id", "school_requirement"."id", "school_requirement"."requirements" FROM "school_requirement"
+  ), requirement AS (
+    SELECT program.program_type, program.program_id, program.program_name, node.value AS node
+    FROM program, JSON_ARRAY_ELEMENTS(program.requirements) AS node
+    UNION ALL
+    SELECT requirement.program_type, requirement.program_id, requirement.program_name, node.value
+    FROM requirement, JSON_ARRAY_ELEMENTS(requirement.node -> 'requirements') AS node
+    WHERE requirement.node ->> 'requirementType' = 'Group'
+  )
+  SELECT DISTINCT
+    requirement.program_type,
+    requirement.program_id,
+    requirement.program_name,
+    requirement.node ->> 'label' AS requirement_label,
+    course.value AS course_id
+  FROM requirement, JSON_ARRAY_ELEMENTS_TEXT(requirement.node -> 'courses') AS course
+  WHERE requirement.node ->> 'requirementType' IN ('Course', 'Unit')
+);
\ No newline at end of file
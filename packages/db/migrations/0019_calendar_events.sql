@@ -0,0 +1,13 @@
+CREATE TYPE "public"."calendar_event_type" AS ENUM('Holiday', 'AddDropDeadline', 'GradeOptionDeadline', 'Commencement');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "calendar_event" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"year" varchar NOT NULL,
+	"quarter" "term" NOT NULL,
+	"type" "calendar_event_type" NOT NULL,
+	"title" varchar NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "calendar_event_year_quarter_title_start_date_index" ON "calendar_event" USING btree ("year","quarter","title","start_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "calendar_event_start_date_end_date_index" ON "calendar_event" USING btree ("start_date","end_date");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "api_key_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key_hash" varchar NOT NULL,
+	"route" varchar NOT NULL,
+	"date" date NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "api_key_usage_key_hash_date_route_index" ON "api_key_usage" USING btree ("key_hash","date","route");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "api_key_usage" ADD COLUMN "last_used_at" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."data_domain" AS ENUM('websoc', 'larc', 'studyLocations', 'materializedViews');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "data_version" (
+	"domain" "data_domain" PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
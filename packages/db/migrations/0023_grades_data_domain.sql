@@ -0,0 +1 @@
+ALTER TYPE "public"."data_domain" ADD VALUE 'grades';
\ No newline at end of file
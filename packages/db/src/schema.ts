@@ -159,6 +159,25 @@ export const divisions = ["Undergraduate", "Graduate"] as const;
 export const division = pgEnum("division", divisions);
 export type Division = (typeof divisions)[number];
 
+export const calendarEventTypes = [
+  "Holiday",
+  "AddDropDeadline",
+  "GradeOptionDeadline",
+  "Commencement",
+] as const;
+export const calendarEventType = pgEnum("calendar_event_type", calendarEventTypes);
+export type CalendarEventType = (typeof calendarEventTypes)[number];
+
+export const dataDomains = [
+  "websoc",
+  "larc",
+  "studyLocations",
+  "materializedViews",
+  "grades",
+] as const;
+export const dataDomain = pgEnum("data_domain", dataDomains);
+export type DataDomain = (typeof dataDomains)[number];
+
 // WebSoc enums
 
 export const websocStatuses = ["OPEN", "Waitl", "FULL", "NewOnly"] as const;
@@ -182,6 +201,18 @@ export const websocSectionTypes = [
 export const websocSectionType = pgEnum("websoc_section_type", websocSectionTypes);
 export type SectionType = (typeof websocSectionTypes)[number];
 
+// Data pipeline tables
+
+/**
+ * The version of the data in each domain, which is incremented whenever the pipeline(s) responsible for
+ * that domain update its data. Responses derived from that data can be cached until its version changes.
+ */
+export const dataVersion = pgTable("data_version", {
+  domain: dataDomain("domain").primaryKey(),
+  version: integer("version").notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+});
+
 // Primary WebSoc tables
 
 export const websocMeta = pgTable("websoc_meta", {
@@ -681,6 +712,23 @@ export const calendarTerm = pgTable("calendar_term", {
   socAvailable: date("soc_available", { mode: "date" }).notNull(),
 });
 
+export const calendarEvent = pgTable(
+  "calendar_event",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    year: varchar("year").notNull(),
+    quarter: term("quarter").notNull(),
+    type: calendarEventType("type").notNull(),
+    title: varchar("title").notNull(),
+    startDate: date("start_date", { mode: "date" }).notNull(),
+    endDate: date("end_date", { mode: "date" }).notNull(),
+  },
+  (table) => [
+    uniqueIndex().on(table.year, table.quarter, table.title, table.startDate),
+    index().on(table.startDate, table.endDate),
+  ],
+);
+
 export const studyLocation = pgTable("study_location", {
   id: varchar("id").primaryKey(),
   name: varchar("name").notNull(),
@@ -757,6 +805,23 @@ export const apExamReward = pgTable("ap_exam_reward", {
   coursesGranted: json("courses_granted").$type<APCoursesGrantedTree>().notNull(),
 });
 
+// API usage tables
+
+export const apiKeyUsage = pgTable(
+  "api_key_usage",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    keyHash: varchar("key_hash").notNull(),
+    route: varchar("route").notNull(),
+    date: date("date", { mode: "date" }).notNull(),
+    count: integer("count").notNull().default(0),
+    lastUsedAt: timestamp("last_used_at", { mode: "date", withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [uniqueIndex().on(table.keyHash, table.date, table.route)],
+);
+
 // Materialized views
 
 export const courseView = pgMaterializedView("course_view").as((qb) => {
@@ -931,3 +996,44 @@ export const instructorView = pgMaterializedView("instructor_view").as((qb) => {
     .where(ne(instructor.ucinetid, "student"))
     .groupBy(instructor.ucinetid, shortenedNamesCte.shortenedNames);
 });
+
+export const programTypes = ["major", "minor", "specialization", "ugrad"] as const;
+
+export type ProgramType = (typeof programTypes)[number];
+
+/**
+ * Every (program, requirement, course) triple such that the course can be used to fulfill
+ * a course or unit requirement of the program, at any level of nesting.
+ */
+export const programCourseView = pgMaterializedView("program_course_view", {
+  programType: text("program_type").$type<ProgramType>().notNull(),
+  programId: varchar("program_id").notNull(),
+  programName: varchar("program_name").notNull(),
+  requirementLabel: varchar("requirement_label").notNull(),
+  courseId: varchar("course_id").notNull(),
+}).as(sql`
+  WITH RECURSIVE program AS (
+    SELECT 'major' AS program_type, ${major.id} AS program_id, ${major.name} AS program_name, ${major.requirements} AS requirements FROM ${major}
+    UNION ALL
+    SELECT 'minor', ${minor.id}, ${minor.name}, ${minor.requirements} FROM ${minor}
+    UNION ALL
+    SELECT 'specialization', ${specialization.id}, ${specialization.name}, ${specialization.requirements} FROM ${specialization}
+    UNION ALL
+    SELECT 'ugrad', ${schoolRequirement.id}, ${schoolRequirement.id}, ${schoolRequirement.requirements} FROM ${schoolRequirement}
+  ), requirement AS (
+    SELECT program.program_type, program.program_id, program.program_name, node.value AS node
+    FROM program, JSON_ARRAY_ELEMENTS(program.requirements) AS node
+    UNION ALL
+    SELECT requirement.program_type, requirement.program_id, requirement.program_name, node.value
+    FROM requirement, JSON_ARRAY_ELEMENTS(requirement.node -> 'requirements') AS node
+    WHERE requirement.node ->> 'requirementType' = 'Group'
+  )
+  SELECT DISTINCT
+    requirement.program_type,
+    requirement.program_id,
+    requirement.program_name,
+    requirement.node ->> 'label' AS requirement_label,
+    course.value AS course_id
+  FROM requirement, JSON_ARRAY_ELEMENTS_TEXT(requirement.node -> 'courses') AS course
+  WHERE requirement.node ->> 'requirementType' IN ('Course', 'Unit')
+`);
@@ -1,7 +1,14 @@
 import type { ColumnBaseConfig, SQL } from "drizzle-orm";
 import { eq, getTableColumns, sql } from "drizzle-orm";
-import type { PgColumn, PgTable, PgUpdateSetSource } from "drizzle-orm/pg-core";
+import type {
+  PgColumn,
+  PgDatabase,
+  PgQueryResultHKT,
+  PgTable,
+  PgUpdateSetSource,
+} from "drizzle-orm/pg-core";
 import { getTableConfig } from "drizzle-orm/pg-core";
+import { type DataDomain, dataVersion } from "./schema.ts";
 
 export const isTrue = <T extends ColumnBaseConfig<"boolean", string>>(col: PgColumn<T>): SQL =>
   eq(col, true);
@@ -34,3 +41,22 @@ export function conflictUpdateSetAllCols<T extends PgTable>(table: T): PgUpdateS
     return acc;
   }, {});
 }
+
+/**
+ * Increments the version of the data in the given domain, signalling that cached responses derived from it
+ * are out of date. This should be called by each data pipeline after it has successfully updated its data,
+ * preferably in the same transaction.
+ */
+export async function bumpDataVersion(
+  db: Pick<PgDatabase<PgQueryResultHKT>, "insert">,
+  domain: DataDomain,
+) {
+  const updatedAt = new Date();
+  await db
+    .insert(dataVersion)
+    .values({ domain, version: 1, updatedAt })
+    .onConflictDoUpdate({
+      target: dataVersion.domain,
+      set: { version: sql`${dataVersion.version} + 1`, updatedAt },
+    });
+}
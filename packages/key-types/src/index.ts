@@ -3,10 +3,31 @@
  */
 export const accessControlledResources = [
   "FUZZY_SEARCH", // Access to the fuzzy search route.
+  "BULK_EXPORT", // Access to the bulk export routes.
 ] as const;
 
 export type AccessControlledResource = (typeof accessControlledResources)[number];
 
+/**
+ * The set of scopes into which the data served by the API is divided.
+ * Each scope corresponds to a group of REST routes and GraphQL root fields.
+ */
+export const scopes = [
+  "apExams", // AP exam data.
+  "calendar", // Calendar and week data.
+  "courses", // Course data.
+  "enrollmentHistory", // Historical enrollment data.
+  "grades", // Historical grade data.
+  "instructors", // Instructor data.
+  "larc", // LARC section data.
+  "programs", // Degree program data.
+  "search", // Fuzzy search over courses and instructors.
+  "studyRooms", // Study room data.
+  "websoc", // WebSoc data.
+] as const;
+
+export type Scope = (typeof scopes)[number];
+
 /**
  * Data that is specific to a publishable key.
  *
@@ -15,7 +36,19 @@ export type AccessControlledResource = (typeof accessControlledResources)[number
  */
 type PublishableKeyData = {
   _type: "publishable";
+
+  /**
+   * The origins on file, and whether each is enabled.
+   *
+   * An origin may also be a pattern whose host begins with a wildcard label (e.g. `https://*.example.com`), which
+   * matches every subdomain of the rest of the host, but not the rest of the host itself.
+   */
   origins: Record<string, boolean>;
+
+  /**
+   * If true, requests bearing this key are also accepted from `localhost` on any port.
+   */
+  allowLocalhost?: boolean;
 };
 
 /**
@@ -41,6 +74,11 @@ export type BaseKeyData = {
    */
   createdAt: Date;
 
+  /**
+   * If present, requests made using this key at or after this date will be rejected.
+   */
+  expiresAt?: Date;
+
   /**
    * If present, requests made using this key will be subject to a rate limit of this many requests per hour,
    * instead of the default limit.
@@ -51,6 +89,55 @@ export type BaseKeyData = {
    * If present, specifies which additional resources requests made using this key are allowed to access.
    */
   resources?: Record<AccessControlledResource, boolean>;
+
+  /**
+   * If present, requests made using this key may only access data in the scopes which are granted here.
+   * Otherwise, requests made using this key may access data in every scope.
+   *
+   * Access controlled resources must still be granted separately.
+   */
+  scopes?: Partial<Record<Scope, boolean>>;
 };
 
 export type KeyData = BaseKeyData & (PublishableKeyData | SecretKeyData);
+
+/**
+ * Whether requests made using the key with the given data may access data in the given scope.
+ */
+export const isScopeGranted = (keyData: KeyData, scope: Scope) =>
+  !keyData.scopes || !!keyData.scopes[scope];
+
+/**
+ * Whether the key with the given data has expired.
+ */
+export const isKeyExpired = (keyData: KeyData, now = new Date()) =>
+  !!keyData.expiresAt && new Date(keyData.expiresAt) <= now;
+
+const LOCALHOST_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * Whether requests bearing the publishable key with the given data are accepted from the given origin.
+ *
+ * Rather than testing the origin against every pattern on file, this looks up the origin itself and then each pattern
+ * which could match it, so the number of lookups only depends on the number of labels in the origin's host.
+ */
+export const isOriginAllowed = (
+  keyData: Pick<PublishableKeyData, "origins" | "allowLocalhost">,
+  origin: string,
+) => {
+  if (keyData.origins[origin]) return true;
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (url.origin !== origin) return false;
+  if (keyData.allowLocalhost && LOCALHOST_HOSTNAMES.has(url.hostname)) return true;
+  const port = url.port ? `:${url.port}` : "";
+  const labels = url.hostname.split(".");
+  for (let i = 1; i < labels.length; ++i) {
+    if (keyData.origins[`${url.protocol}//*.${labels.slice(i).join(".")}${port}`]) return true;
+  }
+  return false;
+};